@@ -0,0 +1,38 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import {
+  SESSION_COOKIE,
+  createSessionToken,
+  sessionCookieOptions,
+  verifyApiKey,
+  verifyUserPassword,
+} from '@/lib/auth';
+import { apiError, internalError, parseBody } from '@/lib/apiErrors';
+import { LoginBody } from '@/lib/apiSchemas';
+
+// =============================================
+// POST /api/auth/login — Session cookie banao
+// Body { username, password } ya { apiKey }
+// =============================================
+export async function POST(req: Request) {
+  const body = await parseBody(req, LoginBody);
+  if (!body.ok) return body.response;
+
+  const principal =
+    'apiKey' in body.data
+      ? verifyApiKey(body.data.apiKey)
+      : verifyUserPassword(body.data.username, body.data.password);
+
+  if (!principal) return apiError('unauthenticated', 'Invalid credentials');
+
+  try {
+    // Kamzor / placeholder AUTH_SECRET pe createSessionToken throw karta hai
+    const sessionPrincipal = { ...principal, via: 'session' as const };
+    const response = NextResponse.json({ status: 'success', principal: sessionPrincipal });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(sessionPrincipal), sessionCookieOptions());
+    return response;
+  } catch (e) {
+    return internalError('POST /api/auth/login', e);
+  }
+}
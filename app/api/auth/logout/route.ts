@@ -0,0 +1,13 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth';
+
+// =============================================
+// POST /api/auth/logout — Session cookie hatao
+// =============================================
+export async function POST() {
+  const response = NextResponse.json({ status: 'success' });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
@@ -0,0 +1,18 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getPrincipal, isAuthDisabled } from '@/lib/auth';
+import type { SessionInfo } from '@/lib/roles';
+
+// =============================================
+// GET /api/auth/session — Abhi kaun logged in hai (UI gate ke liye)
+// =============================================
+export async function GET(req: Request) {
+  const principal = getPrincipal(req);
+  const session: SessionInfo = {
+    authenticated: !!principal,
+    authDisabled: isAuthDisabled(),
+    principal,
+  };
+  return NextResponse.json(session);
+}
@@ -1,31 +1,36 @@
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-import { db } from '@/lib/firebaseAdmin';
+import { authorize } from '@/lib/auth';
+import { apiError, internalError, parseBody, parseQuery } from '@/lib/apiErrors';
+import { QueueListQuery, QueuePatchBody } from '@/lib/apiSchemas';
+import { getStorage, type QueueCollection } from '@/lib/storage';
+import { QUEUE_MACHINE, applyTransition, canTransition } from '@/lib/stateMachine';
 
 // =============================================
 // GET — Fetch all pending items from both queues
 // =============================================
 export async function GET(req: Request) {
-  const { searchParams } = new URL(req.url);
-  const queueType = searchParams.get('type') || 'all'; // 'movies', 'webseries', or 'all'
+  const auth = authorize(req, 'viewer');
+  if (!auth.ok) return auth.response;
+
+  const query = parseQuery(req, QueueListQuery);
+  if (!query.ok) return query.response;
+  const queueType = query.data.type; // 'movies', 'webseries', or 'all'
 
   try {
     const results: any[] = [];
 
-    const fetchQueue = async (collectionName: string, label: string) => {
-      const snapshot = await db
-        .collection(collectionName)
-        .where('status', '==', 'pending')
-        .orderBy('__name__') // deterministic order
-        .get();
+    const fetchQueue = async (collectionName: QueueCollection, label: string) => {
+      // Doc id order — deterministic
+      const docs = await getStorage().queue.listByStatus(collectionName, 'pending');
 
-      snapshot.docs.forEach((doc) => {
+      docs.forEach((doc) => {
         results.push({
           id: doc.id,
           collection: collectionName,
           type: label,
-          ...doc.data(),
+          ...doc.data,
         });
       });
     };
@@ -42,38 +47,52 @@ export async function GET(req: Request) {
       total: results.length,
       items: results,
     });
-  } catch (e: any) {
-    console.error('[GET /api/auto-process/queue] Error:', e.message);
-    return NextResponse.json({ status: 'error', message: e.message }, { status: 500 });
+  } catch (e) {
+    return internalError('GET /api/auto-process/queue', e);
   }
 }
 
+type PatchOutcome = 'not_found' | 'leased' | 'updated' | { from: string };
+
 // =============================================
-// PATCH — Update a queue item's status
+// PATCH — Update a queue item's status (sirf legal transitions)
 // =============================================
 export async function PATCH(req: Request) {
+  const auth = authorize(req, 'operator');
+  if (!auth.ok) return auth.response;
+
+  const body = await parseBody(req, QueuePatchBody);
+  if (!body.ok) return body.response;
+  const { id, collection, status, error: errorMsg } = body.data;
+
   try {
-    const body = await req.json();
-    const { id, collection, status, error: errorMsg } = body;
-
-    if (!id || !collection || !status) {
-      return NextResponse.json(
-        { status: 'error', message: 'id, collection, and status are required' },
-        { status: 400 }
-      );
-    }
+    // Atomic: status check + update ek saath, worker ke claim se race na ho
+    const outcome = await getStorage().queue.mutate<PatchOutcome>(collection, id, (data) => {
+      if (!data) return { result: 'not_found' };
 
-    const updateData: any = {
-      status,
-      updatedAt: new Date().toISOString(),
-    };
-    if (errorMsg) updateData.error = errorMsg;
+      const leaseLive = data.status === 'processing' && data.leaseExpiresAt && new Date(data.leaseExpiresAt).getTime() > Date.now();
+      if (leaseLive) return { result: 'leased' };
+      if (!canTransition(QUEUE_MACHINE, data.status, status)) return { result: { from: String(data.status) } };
+
+      const updateData: Record<string, any> = {
+        ...applyTransition(QUEUE_MACHINE, data, status, `manual update by ${auth.principal.id}`),
+        updatedAt: new Date().toISOString(),
+      };
+      if (errorMsg) updateData.error = errorMsg;
+      return { patch: updateData, result: 'updated' };
+    });
 
-    await db.collection(collection).doc(id).update(updateData);
+    if (outcome === 'not_found') return apiError('not_found', 'Queue item not found');
+    if (outcome === 'leased') return apiError('conflict', 'Queue item is being processed by a worker');
+    if (outcome !== 'updated') {
+      return apiError('invalid_transition', `Cannot move queue item from "${outcome.from}" to "${status}"`, {
+        from: outcome.from,
+        to: status,
+      });
+    }
 
     return NextResponse.json({ status: 'success', id, newStatus: status });
-  } catch (e: any) {
-    console.error('[PATCH /api/auto-process/queue] Error:', e.message);
-    return NextResponse.json({ status: 'error', message: e.message }, { status: 500 });
+  } catch (e) {
+    return internalError('PATCH /api/auto-process/queue', e);
   }
 }
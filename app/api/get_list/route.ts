@@ -1,17 +1,29 @@
 import { NextResponse } from 'next/server';
 import { extractMovieLinks } from '@/lib/solvers';
+import { authorize } from '@/lib/auth';
+import { internalError, parseBody } from '@/lib/apiErrors';
+import { GetListBody } from '@/lib/apiSchemas';
 
+// =============================================
+// POST /api/get_list — Page se download links nikaalo
+// Body { url, diagnostics?: true, includeHtml?: true } → structured extraction
+// report (selectors, har anchor ka reject reason, Cloudflare, HTML snapshot)
+// =============================================
 export async function POST(req: Request) {
-  try {
-    const { url } = await req.json();
-    if (!url) {
-      return NextResponse.json({ status: "error", message: "URL is required" }, { status: 400 });
-    }
+  const auth = authorize(req, 'operator');
+  if (!auth.ok) return auth.response;
+
+  const body = await parseBody(req, GetListBody);
+  if (!body.ok) return body.response;
+  const { url, diagnostics, includeHtml } = body.data;
 
-    const result = await extractMovieLinks(url);
+  try {
+    const result = await extractMovieLinks(url, undefined, {
+      diagnostics: diagnostics === true,
+      includeHtml: diagnostics === true && includeHtml === true,
+    });
     return NextResponse.json(result);
-  } catch (e: any) {
-    console.error("API Route Error:", e);
-    return NextResponse.json({ status: "error", message: e.message }, { status: 500 });
+  } catch (e) {
+    return internalError('POST /api/get_list', e);
   }
 }
@@ -0,0 +1,64 @@
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getHealthSnapshot, SOLVER_BACKENDS } from '@/lib/circuitBreaker';
+import { getWorkerStatus } from '@/lib/jobRunner';
+import { getFetchStrategyStatus } from '@/lib/fetchStrategies';
+import { getLatencyStats, safeFetch } from '@/lib/timeout';
+import { authorize } from '@/lib/auth';
+import { internalError } from '@/lib/apiErrors';
+import { getStorage } from '@/lib/storage';
+
+const PROBE_TIMEOUT_MS = 3_000;
+
+/**
+ * Backend ko halka sa ping karo — koi bhi HTTP response = reachable.
+ * (Circuit state pe asar nahi padta, ye sirf scoreboard ke liye hai.)
+ */
+async function probeBackend(baseUrl: string): Promise<{ reachable: boolean; latencyMs: number; error?: string }> {
+  const startedAt = Date.now();
+  try {
+    await safeFetch(baseUrl, { timeoutMs: PROBE_TIMEOUT_MS });
+    return { reachable: true, latencyMs: Date.now() - startedAt };
+  } catch (e: any) {
+    return { reachable: false, latencyMs: Date.now() - startedAt, error: e.message };
+  }
+}
+
+// =============================================
+// GET /api/health — Solver backend health scoreboard
+// ?probe=1 → har backend ko live ping bhi karo
+// =============================================
+export async function GET(req: Request) {
+  const auth = authorize(req, 'viewer');
+  if (!auth.ok) return auth.response;
+
+  const { searchParams } = new URL(req.url);
+  const shouldProbe = searchParams.get('probe') === '1';
+
+  try {
+    const { backends, hosts } = getHealthSnapshot();
+
+    const backendList = await Promise.all(
+      Object.values(SOLVER_BACKENDS).map(async (backend) => ({
+        ...backends.find((b) => b.key === backend.key)!,
+        label: backend.label,
+        baseUrl: backend.baseUrl,
+        probe: shouldProbe ? await probeBackend(backend.baseUrl) : null,
+      }))
+    );
+
+    return NextResponse.json({
+      status: 'success',
+      checkedAt: new Date().toISOString(),
+      backends: backendList,
+      hosts,
+      latency: getLatencyStats(),
+      fetchStrategies: getFetchStrategyStatus(),
+      worker: getWorkerStatus(),
+      storage: getStorage().backend,
+    });
+  } catch (e) {
+    return internalError('GET /api/health', e);
+  }
+}
@@ -0,0 +1,77 @@
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // Vercel Pro limit
+
+import { NextResponse } from 'next/server';
+import { extractMovieLinks } from '@/lib/solvers';
+import { resolveLink } from '@/lib/solverRegistry';
+import { getSnapshotMode, listSnapshots, runWithSnapshotMode } from '@/lib/snapshotStore';
+import { GlobalTimeoutBudget } from '@/lib/timeout';
+import { authorize } from '@/lib/auth';
+import { internalError, parseBody, parseQuery } from '@/lib/apiErrors';
+import { SnapshotReplayBody, SnapshotsQuery } from '@/lib/apiSchemas';
+
+// =============================================
+// GET /api/snapshots?url=... — Is URL ke recorded snapshots (naye pehle)
+// =============================================
+export async function GET(req: Request) {
+  const auth = authorize(req, 'viewer');
+  if (!auth.ok) return auth.response;
+
+  const query = parseQuery(req, SnapshotsQuery);
+  if (!query.ok) return query.response;
+  const { url } = query.data;
+
+  try {
+    const records = await listSnapshots(url);
+    return NextResponse.json({
+      status: 'success',
+      mode: getSnapshotMode(),
+      snapshots: records.map((r) => ({
+        kind: r.kind,
+        recordedAt: r.recordedAt,
+        status: r.status,
+        finalUrl: r.finalUrl || null,
+        size: typeof r.data === 'string' ? r.data.length : JSON.stringify(r.data).length,
+      })),
+    });
+  } catch (e) {
+    return internalError('GET /api/snapshots', e);
+  }
+}
+
+// =============================================
+// POST /api/snapshots — Offline replay of the pipeline
+// Body { url, at?: ISO time, solve?: true }
+// Extraction (diagnostics ke saath) + optional solver chain — sirf recorded
+// snapshots se, network bilkul nahi. Missing snapshot → us hop pe error.
+// =============================================
+export async function POST(req: Request) {
+  const auth = authorize(req, 'operator');
+  if (!auth.ok) return auth.response;
+
+  const body = await parseBody(req, SnapshotReplayBody);
+  if (!body.ok) return body.response;
+  const { url, at, solve } = body.data;
+
+  try {
+    const result = await runWithSnapshotMode(
+      'replay',
+      async () => {
+        const extraction = await extractMovieLinks(url, undefined, { diagnostics: true });
+        if (solve !== true || !extraction.links) return { extraction, resolved: null };
+
+        const budget = new GlobalTimeoutBudget();
+        const resolved = [];
+        for (const link of extraction.links) {
+          resolved.push({ name: link.name, link: link.link, ...(await resolveLink(link.link, { budget })) });
+        }
+        return { extraction, resolved };
+      },
+      { at }
+    );
+
+    return NextResponse.json({ status: 'success', mode: 'replay', ...result });
+  } catch (e) {
+    return internalError('POST /api/snapshots', e);
+  }
+}
@@ -1,330 +1,40 @@
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60; // Vercel Pro limit
 
-import { db } from '@/lib/firebaseAdmin';
-import { solveHBLinks, solveHubCDN, solveHubDrive, solveHubCloudNative } from '@/lib/solvers';
-import {
-  GlobalTimeoutBudget,
-  API_TIMEOUTS,
-  safeFetch,
-} from '@/lib/timeout';
-
-const API_MAP = {
-  timer: 'http://127.0.0.1:10000/solve?url=',
-  hblinks: 'https://hblinks-dad.onrender.com/solve?url=',
-  hubdrive: 'https://hdhub4u-1.onrender.com/solve?url=',
-  hubcdn_bypass: 'https://hubcdn-bypass.onrender.com/extract?url=',
-};
-
+import { kickWorker } from '@/lib/jobRunner';
+import { createProgressResponse, taskChannel } from '@/lib/progressBus';
+import { authorize } from '@/lib/auth';
+import { apiError, internalError, parseBody } from '@/lib/apiErrors';
+import { StreamSolveBody } from '@/lib/apiSchemas';
+import { getTask } from '@/lib/taskStore';
+
+// =============================================
+// POST /api/stream_solve — Subscribe to a task's live progress
+// Processing server-side worker karta hai; ye route sirf events stream karta hai.
+// Client disconnect ho jaye toh bhi links solve hote rehte hain.
+// =============================================
 export async function POST(req: Request) {
-  let links: any[];
-  let taskId: string | undefined;
-
-  try {
-    const body = await req.json();
-    links = body.links;
-    taskId = body.taskId;
-  } catch {
-    return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
-
-  if (!Array.isArray(links) || links.length === 0) {
-    return new Response(JSON.stringify({ error: 'No links provided' }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
-
-  // 🚀 START GLOBAL BUDGET — 55s safe limit (5s buffer for cleanup + DB writes)
-  const budget = new GlobalTimeoutBudget(55_000);
-
-  const stream = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder();
-      const send = (data: any) => {
-        try {
-          controller.enqueue(encoder.encode(JSON.stringify(data) + '\n'));
-        } catch {
-          // Stream closed by client
-        }
-      };
-
-      const finalResults: Map<number, any> = new Map();
-
-      const processLink = async (linkData: any, idx: number) => {
-        const lid = linkData.id ?? idx;
-        let currentLink = linkData.link;
-        const logs: { msg: string; type: string }[] = [];
-
-        const sendLog = (msg: string, type: string = 'info') => {
-          logs.push({ msg, type });
-          send({ id: lid, msg, type });
-        };
-
-        /**
-         * ✅ SMART TIMEOUT: fetchWithUA now uses safeFetch with budget
-         */
-        const fetchWithUA = (url: string, timeoutMs: number = API_TIMEOUTS.TIMER_BYPASS) => {
-          return safeFetch(
-            url,
-            {
-              timeoutMs,
-              headers: {
-                'User-Agent':
-                  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-              },
-            },
-            budget
-          );
-        };
-
-        try {
-          // 🚀 CHECK BUDGET BEFORE STARTING THIS LINK
-          if (budget.isExpired) {
-            sendLog('⏱️ SKIPPED — Global timeout reached', 'warn');
-            finalResults.set(lid, {
-              ...linkData,
-              status: 'timeout',
-              error: '⏱️ Skipped due to Vercel time limit',
-              logs,
-            });
-            return;
-          }
-
-          sendLog(`🔍 Analyzing Link... ${budget.getStatus()}`, 'info');
-
-          if (!currentLink || typeof currentLink !== 'string') {
-            sendLog('❌ No link URL provided for this item', 'error');
-            finalResults.set(lid, { ...linkData, status: 'error', error: 'No link URL', logs });
-            return;
-          }
-
-          // --- HUBCDN.FANS BYPASS ---
-          if (currentLink.includes('hubcdn.fans')) {
-            sendLog('⚡ HubCDN Detected! Processing...', 'info');
-            try {
-              const r = await solveHubCDN(currentLink, budget);
-              if (r.status === 'success') {
-                sendLog('🎉 COMPLETED: Direct Link Found', 'success');
-                send({ id: lid, final: r.final_link, status: 'done' });
-                finalResults.set(lid, { ...linkData, finalLink: r.final_link, status: 'done', logs });
-                return;
-              } else throw new Error(r.message || 'HubCDN Native Failed');
-            } catch (e: any) {
-              sendLog(`❌ HubCDN Error: ${e.message}`, 'error');
-              finalResults.set(lid, { ...linkData, status: 'error', error: e.message, logs });
-              return;
-            }
-          }
-
-          // --- TIMER BYPASS (with timeout) ---
-          const targetDomains = ['hblinks', 'hubdrive', 'hubcdn', 'hubcloud'];
-          let loopCount = 0;
+  const auth = authorize(req, 'viewer');
+  if (!auth.ok) return auth.response;
 
-          while (loopCount < 3 && !targetDomains.some((d) => currentLink.includes(d))) {
-            if (budget.isExpired) {
-              sendLog('⏱️ Budget expired during timer bypass', 'warn');
-              break;
-            }
+  const body = await parseBody(req, StreamSolveBody);
+  if (!body.ok) return body.response;
+  const { taskId } = body.data;
 
-            const isTimerPage = ['gadgetsweb', 'review-tech', 'ngwin', 'cryptoinsights'].some((x) =>
-              currentLink.includes(x)
-            );
-            if (!isTimerPage && loopCount === 0) break;
-
-            if (loopCount > 0) {
-              sendLog('🔄 Bypassing intermediate page: ' + currentLink, 'warn');
-            } else {
-              sendLog(`⏳ Timer Detected. Processing... ${budget.getStatus()}`, 'warn');
-            }
-
-            try {
-              sendLog('⏳ Calling Timer API...', 'warn');
-              const r = await fetchWithUA(
-                API_MAP.timer + encodeURIComponent(currentLink),
-                API_TIMEOUTS.TIMER_BYPASS
-              ).then((res) => res.json());
-
-              if (r.status === 'success') {
-                currentLink = r.extracted_link!;
-                sendLog('✅ Timer Bypassed', 'success');
-                sendLog('🔗 Link after Timer: ' + currentLink, 'info');
-              } else {
-                throw new Error(r.message || 'Timer API returned failure status');
-              }
-            } catch (e: any) {
-              sendLog(`❌ Timer Error: ${e.message}`, 'error');
-              break;
-            }
-
-            loopCount++;
-          }
-
-          // --- HBLINKS (with timeout) ---
-          if (currentLink.includes('hblinks')) {
-            if (budget.isExpired) {
-              sendLog('⏱️ Budget expired before HBLinks', 'warn');
-              finalResults.set(lid, { ...linkData, status: 'timeout', error: 'Budget expired', logs });
-              return;
-            }
-            sendLog(`🔗 Solving HBLinks... ${budget.getStatus()}`, 'info');
-            try {
-              const r = await solveHBLinks(currentLink, budget);
-              if (r.status === 'success') {
-                currentLink = r.link!;
-                sendLog('✅ HBLinks Solved', 'success');
-              } else throw new Error(r.message || 'HBLinks Native Failed');
-            } catch (e: any) {
-              sendLog(`❌ HBLinks Error: ${e.message}`, 'error');
-              finalResults.set(lid, { ...linkData, status: 'error', error: e.message, logs });
-              return;
-            }
-          }
-
-          // --- HUBDRIVE (with timeout) ---
-          if (currentLink.includes('hubdrive')) {
-            if (budget.isExpired) {
-              sendLog('⏱️ Budget expired before HubDrive', 'warn');
-              finalResults.set(lid, { ...linkData, status: 'timeout', error: 'Budget expired', logs });
-              return;
-            }
-            sendLog(`☁️ Solving HubDrive... ${budget.getStatus()}`, 'info');
-            try {
-              const r = await solveHubDrive(currentLink, budget);
-              if (r.status === 'success') {
-                currentLink = r.link!;
-                sendLog('✅ HubDrive Solved', 'success');
-                sendLog('🔗 Link after HubDrive: ' + currentLink, 'info');
-              } else throw new Error(r.message || 'HubDrive Native Failed');
-            } catch (e: any) {
-              sendLog(`❌ HubDrive Error: ${e.message}`, 'error');
-              finalResults.set(lid, { ...linkData, status: 'error', error: e.message, logs });
-              return;
-            }
-          }
-
-          // --- HUBCLOUD (with timeout) ---
-          let finalFound = false;
-          if (currentLink.includes('hubcloud') || currentLink.includes('hubcdn')) {
-            if (budget.isExpired) {
-              sendLog('⏱️ Budget expired before HubCloud', 'warn');
-              finalResults.set(lid, { ...linkData, status: 'timeout', error: 'Budget expired', logs });
-              return;
-            }
-            sendLog(`⚡ Getting Direct Link (HubCloud)... ${budget.getStatus()}`, 'info');
-            try {
-              const r = await solveHubCloudNative(currentLink, budget);
-
-              if (r.status === 'success' && r.best_download_link) {
-                const finalLink = r.best_download_link;
-                sendLog(`🎉 COMPLETED via ${r.best_button_name || 'Best Button'}`, 'success');
-                send({ id: lid, final: finalLink, status: 'done' });
-
-                finalResults.set(lid, {
-                  ...linkData,
-                  finalLink: finalLink,
-                  status: 'done',
-                  logs,
-                  best_button_name: r.best_button_name || null,
-                  all_available_buttons: r.all_available_buttons || [],
-                });
-
-                finalFound = true;
-                return;
-              } else {
-                throw new Error(r.message || 'HubCloud Native: No download link found');
-              }
-            } catch (e: any) {
-              sendLog(`❌ HubCloud Error: ${e.message}`, 'error');
-            }
-          }
-
-          if (!finalFound) {
-            sendLog('❌ Unrecognized link format or stuck', 'error');
-            send({ id: lid, status: 'error', msg: 'Process ended without final link' });
-            finalResults.set(lid, { ...linkData, status: 'error', error: 'Could not solve', logs });
-          }
-
-        } catch (e: any) {
-          sendLog(`⚠️ Critical Error: ${e.message}`, 'error');
-          finalResults.set(lid, { ...linkData, status: 'error', error: e.message, logs });
-        } finally {
-          
-          // ====================================================================
-          // INCREMENTAL DB SAVE (Saves immediately per link via Transaction)
-          // ====================================================================
-          const finalDataToSave = finalResults.get(lid) || { ...linkData, status: 'error', error: 'Unknown', logs };
-          
-          if (taskId) {
-            try {
-              const taskRef = db.collection('scraping_tasks').doc(taskId);
-              
-              await db.runTransaction(async (transaction) => {
-                const taskDoc = await transaction.get(taskRef);
-                if (!taskDoc.exists) return;
-                
-                const taskData = taskDoc.data();
-                const existingLinks = taskData?.links || [];
-
-                const updatedLinks = existingLinks.map((l: any) => {
-                  if (l.id === lid || l.link === linkData.link) {
-                    return {
-                      ...l,
-                      finalLink: finalDataToSave.finalLink || l.finalLink || null,
-                      status: finalDataToSave.status || l.status || 'error',
-                      error: finalDataToSave.error || l.error || null,
-                      logs: finalDataToSave.logs || l.logs || [],
-                      best_button_name: finalDataToSave.best_button_name || l.best_button_name || null,
-                      all_available_buttons: finalDataToSave.all_available_buttons || l.all_available_buttons || [],
-                    };
-                  }
-                  return l;
-                });
-
-                const allDone = updatedLinks.every((l: any) => {
-                  const s = (l.status || '').toLowerCase();
-                  return s === 'done' || s === 'success' || s === 'error' || s === 'failed' || s === 'timeout';
-                });
-                
-                let taskStatus = taskData?.status || 'processing';
-                if (allDone) {
-                  const anySuccess = updatedLinks.some((l: any) => {
-                    const s = (l.status || '').toLowerCase();
-                    return s === 'done' || s === 'success';
-                  });
-                  taskStatus = anySuccess ? 'completed' : 'failed';
-                }
-
-                transaction.update(taskRef, {
-                  status: taskStatus,
-                  links: updatedLinks,
-                  ...(allDone ? { completedAt: new Date().toISOString() } : {})
-                });
-              });
-            } catch (dbErr: any) {
-              console.error(`[Stream] Incremental save failed for link ${lid}:`, dbErr.message);
-            }
-          }
-
-          send({ id: lid, status: 'finished' });
-        }
-      };
+  try {
+    const task = await getTask(taskId);
+    if (!task) return apiError('not_found', 'Task not found');
 
-      // Process links concurrently (but they save incrementally now)
-      await Promise.all(links.map((link: any, idx: number) => processLink(link, idx)));
+    const hasOpenLinks = task.linkCounts.pending > 0;
 
-      controller.close();
-    },
-  });
+    if (hasOpenLinks) kickWorker({ taskId });
 
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'application/x-ndjson',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
-    },
-  });
+    return createProgressResponse(taskChannel(taskId), {
+      isTerminal: (event) => event.status === 'task_complete',
+      // Nothing left to solve → close right away
+      maxDurationMs: hasOpenLinks ? 55_000 : 0,
+    });
+  } catch (e) {
+    return internalError('POST /api/stream_solve', e);
+  }
 }
@@ -2,9 +2,34 @@ export const dynamic = 'force-dynamic';
 export const maxDuration = 60; // Allow up to 60s for Vercel Pro (default is 10s)
 
 import { NextResponse } from 'next/server';
-import { db } from '@/lib/firebaseAdmin';
 import { extractMovieLinks } from '@/lib/solvers';
 import { GlobalTimeoutBudget, API_TIMEOUTS, safeFetch } from '@/lib/timeout';
+import { kickWorker } from '@/lib/jobRunner';
+import { resetChannel, taskChannel } from '@/lib/progressBus';
+import { prefillFromCache } from '@/lib/linkCache';
+import { RETRY_POLICIES, shouldRetry } from '@/lib/retryPolicy';
+import { authorize } from '@/lib/auth';
+import { apiError, internalError, parseBody, parseQuery } from '@/lib/apiErrors';
+import { CreateTaskBody, TaskIdInput } from '@/lib/apiSchemas';
+import { LINK_MACHINE, TASK_MACHINE, applyTransition, deriveTaskStatus, summarizeLinks } from '@/lib/stateMachine';
+import {
+  createTask,
+  deleteTask,
+  findTasksByUrl,
+  getTask,
+  getTaskLinks,
+  listRecentTasks,
+  recountTask,
+  writeLinks,
+} from '@/lib/taskStore';
+
+function isRetryableTaskLink(l: any): boolean {
+  const status = LINK_MACHINE.normalize(l.status);
+  if (status !== 'error' && status !== 'timeout') return false;
+  // Purane links (errorKind se pehle) — pehle jaisa hamesha retry
+  if (!l.errorKind) return true;
+  return shouldRetry({ kind: l.errorKind }, l.attempts || 1, RETRY_POLICIES.streamSolve);
+}
 
 // =============================================
 // HELPER: Telegram Alert — WITH TIMEOUT
@@ -32,21 +57,28 @@ async function sendTelegramAlert(failedUrl: string, errorMessage: string) {
 }
 
 // =============================================
-// GET /api/tasks — List recent tasks
+// GET /api/tasks — List recent tasks (sirf linkCounts, links nahi)
+// GET /api/tasks?taskId=... — Ek task + uske saare links (UI expand pe lazily)
 // =============================================
-export async function GET() {
+export async function GET(req: Request) {
+  const auth = authorize(req, 'viewer');
+  if (!auth.ok) return auth.response;
+
   try {
-    const snapshot = await db
-      .collection('scraping_tasks')
-      .orderBy('createdAt', 'desc')
-      .limit(20)
-      .get();
-
-    const tasks = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
-    return NextResponse.json(tasks);
-  } catch (e: any) {
-    console.error('[GET /api/tasks] Error:', e.message);
-    return NextResponse.json({ error: e.message }, { status: 500 });
+    if (new URL(req.url).searchParams.has('taskId')) {
+      const query = parseQuery(req, TaskIdInput);
+      if (!query.ok) return query.response;
+      const { taskId } = query.data;
+
+      const links = await getTaskLinks(taskId);
+      const task = await getTask(taskId);
+      if (!task) return apiError('not_found', 'Task not found');
+      return NextResponse.json({ ...task, links });
+    }
+
+    return NextResponse.json(await listRecentTasks(20));
+  } catch (e) {
+    return internalError('GET /api/tasks', e);
   }
 }
 
@@ -54,46 +86,22 @@ export async function GET() {
 // POST /api/tasks — Create or merge/retry a scraping task
 // =============================================
 export async function POST(req: Request) {
-  let url: string;
-  try {
-    const body = await req.json();
-    url = body?.url;
-  } catch (parseError: any) {
-    console.error('[POST /api/tasks] JSON parse error:', parseError.message);
-    return NextResponse.json(
-      { error: 'Invalid JSON in request body' },
-      { status: 400 }
-    );
-  }
-
-  if (!url || typeof url !== 'string' || !url.trim()) {
-    return NextResponse.json({ error: 'URL is required' }, { status: 400 });
-  }
+  const auth = authorize(req, 'operator');
+  if (!auth.ok) return auth.response;
 
-  const trimmedUrl = url.trim();
+  const body = await parseBody(req, CreateTaskBody);
+  if (!body.ok) return body.response;
+  const trimmedUrl = body.data.url;
 
   try {
     let existingTaskId: string | null = null;
     let existingTaskData: any = null;
 
     try {
-      const existingSnapshot = await db
-        .collection('scraping_tasks')
-        .where('url', '==', trimmedUrl)
-        .limit(5) 
-        .get();
-
-      if (!existingSnapshot.empty) {
-        const sorted = existingSnapshot.docs
-          .map((doc) => ({ id: doc.id, data: doc.data() }))
-          .sort((a, b) => {
-            const timeA = a.data.createdAt || '';
-            const timeB = b.data.createdAt || '';
-            return timeB > timeA ? 1 : timeB < timeA ? -1 : 0;
-          });
-
-        existingTaskId = sorted[0].id;
-        existingTaskData = sorted[0].data;
+      const [latest] = await findTasksByUrl(trimmedUrl, 5);
+      if (latest) {
+        existingTaskId = latest.id;
+        existingTaskData = latest;
       }
     } catch (dupCheckErr: any) {
       console.warn('[POST /api/tasks] Duplicate check failed, creating new task:', dupCheckErr.message);
@@ -106,36 +114,46 @@ export async function POST(req: Request) {
     // ---- Step 4: If duplicate exists, Merge or Retry ----
     if (existingTaskId && existingTaskData) {
       if (listResult.status === 'success' && listResult.links) {
-        const existingLinks: any[] = existingTaskData.links || [];
-        const existingLinkUrls = new Set(existingLinks.map((l: any) => l.link));
+        const existingLinks = await getTaskLinks(existingTaskId);
+        const existingLinkUrls = new Set(existingLinks.map((l) => l.link));
+        let nextIndex = existingLinks.reduce((max, l) => Math.max(max, l.index + 1), 0);
 
         const newLinksToAdd = listResult.links
           .filter((l: any) => !existingLinkUrls.has(l.link))
-          .map((l: any) => ({ ...l, status: 'pending', logs: [] }));
-
-        // FIX FOR RETRY BUG: Reset any failed/error links back to pending automatically
-        const updatedExistingLinks = existingLinks.map((l: any) => {
-          if (l.status === 'error' || l.status === 'failed') {
-            return { 
-              ...l, 
-              status: 'pending', 
-              logs: [{ msg: '🔄 Retrying...', type: 'info' }] 
-            };
-          }
-          return l;
-        });
-
-        const mergedLinks = [...updatedExistingLinks, ...newLinksToAdd];
-
-        await db.collection('scraping_tasks').doc(existingTaskId).update({
-          status: 'processing', // Ensure task is active again for stream_solve
+          .map((l: any) => ({
+            ...l,
+            index: nextIndex++,
+            ...applyTransition(LINK_MACHINE, null, 'pending', 'found on re-submit'),
+            logs: [],
+          }));
+
+        // 🔁 Failed / timed-out links wapas pending — sirf jab error kind retryable ho
+        // (not_found / markup_changed dobara bhi fail hi honge) aur attempts bache hon
+        const retriedLinks = existingLinks.filter(isRetryableTaskLink).map((l) => ({
+          ...l,
+          ...applyTransition(LINK_MACHINE, l, 'pending', `retry (${l.errorKind || 'legacy'})`),
+          logs: [{ msg: '🔄 Retrying...', type: 'info' }],
+        }));
+
+        // ♻️ Pehle se solved (aur abhi bhi zinda) links cache se turant done
+        const { links: changedLinks, hits: cacheHits } = await prefillFromCache(
+          [...retriedLinks, ...newLinksToAdd],
+          budget
+        );
+
+        // Sirf badle hue link docs likho, phir counts + status subcollection se recount
+        await writeLinks(existingTaskId, changedLinks);
+        await recountTask(existingTaskId, `re-submitted: ${newLinksToAdd.length} new links, ${cacheHits} from cache`, {
           error: null, // Clear past errors
-          links: mergedLinks,
           metadata: listResult.metadata || existingTaskData.metadata,
           preview: listResult.preview || existingTaskData.preview,
           updatedAt: new Date().toISOString(),
         });
 
+        // 🛰️ Server-side worker ko jagao — browser band ho jaye toh bhi solve hoga
+        resetChannel(taskChannel(existingTaskId));
+        kickWorker({ taskId: existingTaskId });
+
         return NextResponse.json({
           taskId: existingTaskId,
           metadata: listResult.metadata,
@@ -156,31 +174,44 @@ export async function POST(req: Request) {
     }
 
     // ---- Step 5: Create new task ----
-    const taskData: Record<string, any> = {
+    const createdAt = new Date().toISOString();
+    const extracted = listResult.status === 'success' && !!listResult.links;
+    let taskData: Record<string, any> = {
       url: trimmedUrl,
-      status: 'processing',
-      createdAt: new Date().toISOString(),
+      ...applyTransition(TASK_MACHINE, null, 'processing', 'created', createdAt),
+      createdAt,
       metadata: listResult.status === 'success' ? listResult.metadata : null,
       preview: listResult.status === 'success' ? (listResult as any).preview : null,
-      links:
-        listResult.status === 'success' && listResult.links
-          ? listResult.links.map((l: any) => ({
-              ...l,
-              status: 'pending', // Set to pending so stream_solve can pick it up
-              logs: [{ msg: '🔍 Queued for processing...', type: 'info' }],
-            }))
-          : [],
     };
 
-    const taskRef = await db.collection('scraping_tasks').add(taskData);
-    const taskId = taskRef.id;
+    let links = extracted
+      ? listResult.links!.map((l: any) => ({
+          ...l,
+          ...applyTransition(LINK_MACHINE, null, 'pending', 'extracted', createdAt), // Worker yahin se uthata hai
+          logs: [{ msg: '🔍 Queued for processing...', type: 'info' }],
+        }))
+      : [];
+
+    if (links.length > 0) {
+      const prefilled = await prefillFromCache(links, budget);
+      links = prefilled.links;
+      if (prefilled.hits > 0 && deriveTaskStatus(summarizeLinks(links.map((l: any) => l.status))) === 'completed') {
+        taskData = { ...taskData, ...applyTransition(TASK_MACHINE, taskData, 'completed', 'all links served from cache') };
+        taskData.completedAt = new Date().toISOString();
+      }
+    }
 
-    if (listResult.status !== 'success' || !listResult.links) {
-      await taskRef.update({
-        status: 'failed',
-        error: listResult.message || 'Extraction failed',
-      });
+    if (!extracted) {
+      const message = listResult.message || 'Extraction failed';
+      taskData = { ...taskData, ...applyTransition(TASK_MACHINE, taskData, 'failed', message), error: message };
+    }
+
+    const taskId = await createTask(taskData, links);
+
+    if (!extracted) {
       sendTelegramAlert(trimmedUrl, listResult.message || 'Extraction failed').catch(() => {});
+    } else if (taskData.status !== 'completed') {
+      kickWorker({ taskId });
     }
 
     return NextResponse.json({
@@ -188,9 +219,8 @@ export async function POST(req: Request) {
       metadata: taskData.metadata,
       preview: taskData.preview,
     });
-  } catch (e: any) {
-    console.error('[POST /api/tasks] Unhandled error:', e.message, e.stack);
-    return NextResponse.json({ error: e.message }, { status: 500 });
+  } catch (e) {
+    return internalError('POST /api/tasks', e);
   }
 }
 
@@ -198,36 +228,26 @@ export async function POST(req: Request) {
 // DELETE /api/tasks — Delete a task from Firestore
 // =============================================
 export async function DELETE(req: Request) {
-  try {
-    let taskId: string | null = null;
-    
-    // Support URL search params fallback (e.g., /api/tasks?taskId=123)
-    const url = new URL(req.url);
-    taskId = url.searchParams.get('taskId');
-
-    // If not in URL, check JSON body safely
-    if (!taskId) {
-      const body = await req.json().catch(() => ({}));
-      taskId = body?.taskId;
-    }
-
-    if (!taskId) {
-      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
-    }
+  const auth = authorize(req, 'admin');
+  if (!auth.ok) return auth.response;
 
-    const docRef = db.collection('scraping_tasks').doc(taskId);
-    const doc = await docRef.get();
+  // taskId query param (/api/tasks?taskId=123) ya JSON body se
+  const fromQuery = new URL(req.url).searchParams.get('taskId');
+  const input = fromQuery
+    ? parseQuery(req, TaskIdInput)
+    : await parseBody(req, TaskIdInput);
+  if (!input.ok) return input.response;
+  const { taskId } = input.data;
 
-    if (!doc.exists) {
+  try {
+    if (!(await getTask(taskId))) {
       // If already deleted, return success so UI updates smoothly
       return NextResponse.json({ success: true, deletedId: taskId, note: 'Task not found or already deleted' });
     }
 
-    await docRef.delete();
+    await deleteTask(taskId);
     return NextResponse.json({ success: true, deletedId: taskId });
-  } catch (e: any) {
-    console.error('[DELETE /api/tasks] Error:', e.message);
-    // Return 200 with error flag to prevent UI crashing
-    return NextResponse.json({ success: false, error: e.message }, { status: 200 });
+  } catch (e) {
+    return internalError('DELETE /api/tasks', e);
   }
 }
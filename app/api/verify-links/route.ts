@@ -0,0 +1,50 @@
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // Vercel Pro limit
+
+import { NextResponse } from 'next/server';
+import { getVerifierStatus, runLinkVerification } from '@/lib/linkVerifier';
+import { GlobalTimeoutBudget } from '@/lib/timeout';
+import { authorize } from '@/lib/auth';
+import { apiError, internalError, parseBody } from '@/lib/apiErrors';
+import { VerifyLinksBody } from '@/lib/apiSchemas';
+
+// =============================================
+// GET /api/verify-links — Last verification run summary
+// =============================================
+export async function GET(req: Request) {
+  const auth = authorize(req, 'viewer');
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ status: 'success', verifier: getVerifierStatus() });
+}
+
+// =============================================
+// POST /api/verify-links — Saved download links re-verify karo
+// Body (optional): { collection, docId } → sirf ek doc; { limit } → batch size
+// Cron ke liye: bina body ke call karo, stale docs khud chune jaate hain.
+// =============================================
+export async function POST(req: Request) {
+  const auth = authorize(req, 'operator');
+  if (!auth.ok) return auth.response;
+
+  const body = await parseBody(req, VerifyLinksBody, { optional: true });
+  if (!body.ok) return body.response;
+  const { limit, collection, docId } = body.data;
+
+  if (getVerifierStatus().running && !docId) {
+    return apiError('conflict', 'Verification already running');
+  }
+
+  try {
+    const summary = await runLinkVerification({
+      // ✅ SMART TIMEOUT: 50s — leaves time for the final DB writes
+      budget: new GlobalTimeoutBudget(50_000),
+      limit,
+      collection,
+      docId,
+    });
+    return NextResponse.json({ status: 'success', summary });
+  } catch (e) {
+    return internalError('POST /api/verify-links', e);
+  }
+}
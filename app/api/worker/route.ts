@@ -0,0 +1,42 @@
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // Vercel Pro limit
+
+import { NextResponse } from 'next/server';
+import { getWorkerStatus, kickWorker, runWorkerCycle } from '@/lib/jobRunner';
+import { authorize } from '@/lib/auth';
+import { internalError, parseBody } from '@/lib/apiErrors';
+import { WorkerBody } from '@/lib/apiSchemas';
+
+// =============================================
+// GET /api/worker — Worker status
+// =============================================
+export async function GET(req: Request) {
+  const auth = authorize(req, 'viewer');
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ status: 'success', worker: getWorkerStatus() });
+}
+
+// =============================================
+// POST /api/worker — Wake the background worker
+// Body { mode: 'cycle' } → ek synchronous cycle chalao (cron / serverless ke liye)
+// =============================================
+export async function POST(req: Request) {
+  const auth = authorize(req, 'operator');
+  if (!auth.ok) return auth.response;
+
+  const body = await parseBody(req, WorkerBody, { optional: true });
+  if (!body.ok) return body.response;
+
+  try {
+    if (body.data.mode === 'cycle') {
+      const result = await runWorkerCycle();
+      return NextResponse.json({ status: 'success', cycle: result, worker: getWorkerStatus() });
+    }
+
+    kickWorker();
+    return NextResponse.json({ status: 'success', worker: getWorkerStatus() });
+  } catch (e) {
+    return internalError('POST /api/worker', e);
+  }
+}
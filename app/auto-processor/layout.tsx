@@ -0,0 +1,5 @@
+import AuthGate from '@/components/AuthGate';
+
+export default function AutoProcessorLayout({ children }: { children: React.ReactNode }) {
+  return <AuthGate>{children}</AuthGate>;
+}
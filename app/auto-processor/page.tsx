@@ -19,8 +19,14 @@ import {
   Rocket,
   ChevronDown,
   ChevronRight,
+  Server,
 } from 'lucide-react';
 import Link from 'next/link';
+import HealthPanel from '@/components/HealthPanel';
+import { RETRY_POLICIES, backoffDelay, retryDecision, shouldRetry, sleep } from '@/lib/retryPolicy';
+import type { SolverErrorKind } from '@/lib/solverResult';
+import type { QueueItemStatus } from '@/lib/stateMachine';
+import { useSession } from '@/hooks/use-session';
 
 // =============================================
 // Types
@@ -31,7 +37,7 @@ interface QueueItem {
   type: string;
   url: string;
   title: string;
-  status: string;
+  status: QueueItemStatus;
 }
 
 interface LogEntry {
@@ -43,12 +49,14 @@ interface LogEntry {
 
 interface ProcessedItem {
   queueItem: QueueItem;
-  status: 'completed' | 'failed' | 'processing' | 'skipped';
+  /** Server ka 'done' event — 'processing' = checkpoint save, item dobara chalega */
+  status: Exclude<QueueItemStatus, 'pending'>;
   savedId?: string;
   savedCollection?: string;
   successfulLinks?: number;
   failedLinks?: number;
   error?: string;
+  errorKind?: SolverErrorKind;
   title?: string;
 }
 
@@ -56,6 +64,7 @@ interface ProcessedItem {
 // Component
 // =============================================
 export default function AutoProcessorPage() {
+  const { can } = useSession();
   // Queue state
   const [queueType, setQueueType] = useState<'all' | 'movies' | 'webseries'>('all');
   const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
@@ -77,6 +86,9 @@ export default function AutoProcessorPage() {
   const [showLogs, setShowLogs] = useState(true);
   const [showResults, setShowResults] = useState(false);
 
+  // Server-side worker state
+  const [workerRunning, setWorkerRunning] = useState(false);
+
   // Refs for abort control
   const abortRef = useRef(false);
   const pauseRef = useRef(false);
@@ -114,6 +126,24 @@ export default function AutoProcessorPage() {
     fetchQueue();
   }, [fetchQueue]);
 
+  // =============================================
+  // Poll server-side worker status
+  // =============================================
+  useEffect(() => {
+    const pollWorker = async () => {
+      try {
+        const res = await fetch('/api/worker');
+        const data = await res.json();
+        if (data.status === 'success') setWorkerRunning(Boolean(data.worker?.running));
+      } catch {
+        // worker status is informational only
+      }
+    };
+    pollWorker();
+    const timer = setInterval(pollWorker, 10000);
+    return () => clearInterval(timer);
+  }, []);
+
   // =============================================
   // Add Log
   // =============================================
@@ -184,6 +214,7 @@ export default function AutoProcessorPage() {
                     successfulLinks: data.successfulLinks,
                     failedLinks: data.failedLinks,
                     error: data.error,
+                    errorKind: data.errorKind,
                   };
                 }
               } catch {
@@ -221,7 +252,8 @@ export default function AutoProcessorPage() {
     setShowResults(false);
 
     addLog(`🚀 Starting Auto-Processor (AUTO-RETRY MODE)`, 'success');
-    addLog(`⚙️ Each URL will have 3 retry attempts on failure.`, 'info');
+    addLog(`⚙️ Each URL gets up to ${RETRY_POLICIES.autoProcess.maxAttempts} attempts (backoff, retryable errors only).`, 'info');
+    addLog(`🛰️ Processing runs on the server worker — closing this tab will NOT stop the queue.`, 'info');
     addLog('─'.repeat(50), 'info');
 
     const itemsToProcess = [...queueItems];
@@ -245,7 +277,7 @@ export default function AutoProcessorPage() {
       let itemDone = false;
       let finalResult: ProcessedItem | null = null;
       let consecutiveFails = 0; // Tracks consecutive failures for the SAME item
-      const MAX_RETRIES = 3;
+      const retryPolicy = RETRY_POLICIES.autoProcess;
 
       while (!itemDone && !abortRef.current) {
         // Handle pause
@@ -269,12 +301,18 @@ export default function AutoProcessorPage() {
         else if (result.status === 'failed') {
           // Genuine failure or error
           consecutiveFails++;
-          
-          if (consecutiveFails < MAX_RETRIES) {
-            addLog(`⚠️ Attempt ${consecutiveFails} failed. Retrying in 2s...`, 'error');
-            await new Promise((r) => setTimeout(r, 2000));
+          const failure = { kind: result.errorKind ?? 'unknown' } as const;
+
+          if (shouldRetry(failure, consecutiveFails, retryPolicy)) {
+            const delayMs = backoffDelay(consecutiveFails, retryPolicy);
+            addLog(`⚠️ Attempt ${consecutiveFails} failed (${failure.kind}). Retrying in ${(delayMs / 1000).toFixed(1)}s...`, 'error');
+            await sleep(delayMs);
           } else {
-            addLog(`❌ Final Strike: Skipping "${item.title}" after ${MAX_RETRIES} attempts.`, 'error');
+            if (retryDecision(failure, retryPolicy) === 'retry') {
+              addLog(`❌ Final Strike: Skipping "${item.title}" after ${retryPolicy.maxAttempts} attempts.`, 'error');
+            } else {
+              addLog(`❌ Not retrying "${item.title}" — ${failure.kind} won't fix itself.`, 'error');
+            }
             itemDone = true;
             finalResult = result;
           }
@@ -353,11 +391,19 @@ export default function AutoProcessorPage() {
               <p className="text-[10px] text-slate-500">Batch Queue Processing Engine</p>
             </div>
           </div>
-          {isProcessing && (
-            <span className="ml-auto px-2 py-1 bg-violet-500/20 text-violet-400 text-[10px] font-bold rounded-full animate-pulse">
-              PROCESSING
+          <div className="ml-auto flex items-center gap-2">
+            <span className={`flex items-center gap-1 px-2 py-1 text-[10px] font-bold rounded-full ${
+              workerRunning ? 'bg-emerald-500/20 text-emerald-400' : 'bg-white/5 text-slate-500'
+            }`}>
+              <Server className="w-3 h-3" />
+              {workerRunning ? 'WORKER ACTIVE' : 'WORKER IDLE'}
             </span>
-          )}
+            {isProcessing && (
+              <span className="px-2 py-1 bg-violet-500/20 text-violet-400 text-[10px] font-bold rounded-full animate-pulse">
+                PROCESSING
+              </span>
+            )}
+          </div>
         </div>
       </div>
 
@@ -428,7 +474,7 @@ export default function AutoProcessorPage() {
             {!isProcessing ? (
               <button
                 onClick={startProcessing}
-                disabled={queueItems.length === 0 || isLoadingQueue}
+                disabled={queueItems.length === 0 || isLoadingQueue || !can('operator')}
                 className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white font-bold rounded-xl transition-all disabled:opacity-30 disabled:cursor-not-allowed"
               >
                 <Rocket className="w-5 h-5" />
@@ -457,6 +503,9 @@ export default function AutoProcessorPage() {
           </div>
         </div>
 
+        {/* ==================== BACKEND HEALTH ==================== */}
+        <HealthPanel />
+
         {/* ==================== PROGRESS BAR ==================== */}
         {(isProcessing || processedItems.length > 0) && (
           <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-5">
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bolt, KeyRound, Loader2, LogIn, User } from 'lucide-react';
+
+type LoginMode = 'password' | 'apiKey';
+
+// =============================================
+// /login — Username + password ya API key se session
+// =============================================
+export default function LoginPage() {
+  const [mode, setMode] = useState<LoginMode>('password');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nextPath = () => {
+    const next = new URLSearchParams(window.location.search).get('next') || '/';
+    // Sirf apni site ke paths — open redirect nahi
+    return next.startsWith('/') && !next.startsWith('//') ? next : '/';
+  };
+
+  // Pehle se logged in (ya AUTH_MODE=off) → seedha aage
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.authenticated) window.location.replace(nextPath());
+      })
+      .catch(() => {});
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'apiKey' ? { apiKey } : { username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Login failed');
+      window.location.replace(nextPath());
+    } catch (err: any) {
+      setError(err.message);
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full bg-black/40 border border-white/10 text-white pl-12 pr-4 py-3.5 rounded-2xl outline-none focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/20 transition-all font-sans';
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4">
+      <form
+        onSubmit={submit}
+        className="w-full max-w-sm bg-white/5 backdrop-blur-xl border border-white/10 rounded-[2rem] p-6 shadow-2xl space-y-4"
+      >
+        <div className="text-2xl font-bold bg-gradient-to-br from-white to-slate-400 bg-clip-text text-transparent flex items-center gap-2 mb-2">
+          <Bolt className="text-indigo-500 fill-indigo-500" />
+          MFLIX PRO
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 bg-black/40 rounded-xl p-1 text-xs font-semibold">
+          {(['password', 'apiKey'] as LoginMode[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`py-2 rounded-lg transition-all ${mode === m ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {m === 'password' ? 'Username' : 'API Key'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'password' ? (
+          <>
+            <div className="relative">
+              <User className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 w-5 h-5" />
+              <input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username"
+                autoComplete="username"
+                className={inputClass}
+              />
+            </div>
+            <div className="relative">
+              <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 w-5 h-5" />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoComplete="current-password"
+                className={inputClass}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="relative">
+            <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 w-5 h-5" />
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder="API key"
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-rose-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3.5 rounded-2xl font-bold flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white transition-all active:scale-95 disabled:opacity-70"
+        >
+          {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <LogIn className="w-5 h-5" />}
+          Login
+        </button>
+      </form>
+    </main>
+  );
+}
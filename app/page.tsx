@@ -1,10 +1,13 @@
 import MflixApp from '@/components/MflixApp';
+import AuthGate from '@/components/AuthGate';
 
 // Sync point
 export default function Home() {
   return (
     <main className="min-h-screen">
-      <MflixApp />
+      <AuthGate>
+        <MflixApp />
+      </AuthGate>
     </main>
   );
 }
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, LogOut, ShieldCheck } from 'lucide-react';
+import { SessionContext, useSession } from '@/hooks/use-session';
+import type { SessionInfo } from '@/lib/roles';
+
+/** Login nahi → /login?next=<current path>. Logged in → children + session context. */
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/auth/session')
+      .then((res) => res.json())
+      .then((data: SessionInfo) => {
+        if (cancelled) return;
+        if (!data.authenticated) {
+          const next = encodeURIComponent(window.location.pathname + window.location.search);
+          window.location.replace(`/login?next=${next}`);
+          return;
+        }
+        setSession(data);
+      })
+      .catch(() => {
+        if (!cancelled) window.location.replace('/login');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-slate-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <SessionContext.Provider value={session}>
+      {!session.authDisabled && <SessionBadge />}
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+function SessionBadge() {
+  const { session, logout } = useSession();
+  if (!session?.principal) return null;
+
+  return (
+    <div className="fixed top-3 right-3 z-50 flex items-center gap-2 bg-black/70 backdrop-blur border border-white/10 rounded-full pl-3 pr-1 py-1 text-[11px] font-mono text-slate-400">
+      <ShieldCheck className="w-3.5 h-3.5 text-indigo-400" />
+      <span className="text-white">{session.principal.id}</span>
+      <span className="px-1.5 py-0.5 rounded-full bg-indigo-500/15 text-indigo-300">{session.principal.role}</span>
+      <button
+        onClick={logout}
+        title="Logout"
+        className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+      >
+        <LogOut className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Activity, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import type { CircuitSnapshot } from '@/lib/circuitBreaker';
+import type { LatencyStats } from '@/lib/timeout';
+
+interface BackendHealth extends CircuitSnapshot {
+  label: string;
+  baseUrl: string;
+  probe: { reachable: boolean; latencyMs: number; error?: string } | null;
+}
+
+interface HealthResponse {
+  status: string;
+  checkedAt: string;
+  backends: BackendHealth[];
+  hosts: CircuitSnapshot[];
+  latency: LatencyStats[];
+}
+
+const stateStyles: Record<CircuitSnapshot['state'], string> = {
+  closed: 'bg-emerald-500/20 text-emerald-400',
+  'half-open': 'bg-amber-500/20 text-amber-400',
+  open: 'bg-rose-500/20 text-rose-400',
+};
+
+export default function HealthPanel() {
+  const [health, setHealth] = useState<HealthResponse | null>(null);
+  const [showHosts, setShowHosts] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const res = await fetch('/api/health?probe=1');
+        const data = await res.json();
+        if (!cancelled && data.status === 'success') setHealth(data);
+      } catch {
+        // Panel is informational only
+      }
+    };
+    load();
+    const timer = setInterval(load, 15000);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [refreshKey]);
+
+  return (
+    <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-5">
+      <div className="flex items-center gap-2 mb-3">
+        <Activity className="w-3.5 h-3.5 text-slate-400" />
+        <span className="text-xs font-bold text-slate-400 uppercase">Solver Backends</span>
+        <button
+          onClick={() => setRefreshKey((k) => k + 1)}
+          className="ml-auto p-1.5 rounded-lg bg-white/5 border border-white/5 hover:bg-white/10 text-slate-400 transition-all"
+        >
+          <RotateCcw className="w-3 h-3" />
+        </button>
+      </div>
+
+      {!health ? (
+        <p className="text-[11px] text-slate-600">Checking backends...</p>
+      ) : (
+        <div className="space-y-2">
+          {health.backends.map((b) => (
+            <div key={b.key} className="flex items-center gap-3 text-[11px]">
+              <span className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                b.probe && !b.probe.reachable ? 'bg-rose-500' : b.state === 'closed' ? 'bg-emerald-500' : 'bg-amber-500'
+              }`} />
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold text-slate-300 truncate">{b.label}</p>
+                <p className="text-[10px] text-slate-600 font-mono truncate">
+                  {b.baseUrl}
+                  {b.probe && ` • ${b.probe.reachable ? `ping ${b.probe.latencyMs}ms` : 'unreachable'}`}
+                </p>
+              </div>
+              <span className="text-slate-500 font-mono">
+                {b.calls > 0 ? `${Math.round(b.failureRate * 100)}% fail • ${b.avgLatencyMs}ms` : 'no calls'}
+              </span>
+              <span className={`px-2 py-0.5 rounded-full text-[9px] font-bold uppercase ${stateStyles[b.state]}`}>
+                {b.state}
+              </span>
+            </div>
+          ))}
+
+          {health.latency.some((l) => l.samples > 0) && (
+            <div className="pt-2 border-t border-white/5 space-y-1">
+              <p className="text-[10px] font-bold text-slate-500 uppercase">Adaptive Timeouts</p>
+              {health.latency.filter((l) => l.samples > 0).map((l) => (
+                <div key={l.api} className="flex items-center gap-3 text-[10px] font-mono">
+                  <span className="text-slate-400 flex-1">{l.api}</span>
+                  <span className="text-slate-600">p95 {l.p95Ms}ms • {l.samples} calls{l.timeouts > 0 ? ` • ${l.timeouts} timeouts` : ''}</span>
+                  <span className="text-indigo-400">{(l.currentTimeoutMs / 1000).toFixed(1)}s / {(l.ceilingMs / 1000).toFixed(0)}s</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {health.hosts.length > 0 && (
+            <div className="pt-2 border-t border-white/5">
+              <button
+                onClick={() => setShowHosts(!showHosts)}
+                className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase"
+              >
+                {showHosts ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                Target Hosts ({health.hosts.length})
+              </button>
+              {showHosts && (
+                <div className="mt-2 space-y-1">
+                  {health.hosts.map((h) => (
+                    <div key={h.key} className="flex items-center gap-3 text-[10px] font-mono">
+                      <span className="text-slate-400 truncate flex-1">{h.key.replace('host:', '')}</span>
+                      <span className="text-slate-600">{Math.round(h.failureRate * 100)}% fail • {h.avgLatencyMs ?? '—'}ms</span>
+                      <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${stateStyles[h.state]}`}>{h.state}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 'use client';
 
-import { Video, CircleCheck, CircleDashed, Copy, Check, AlertCircle } from 'lucide-react';
+import { Video, CircleCheck, CircleDashed, Copy, Check, AlertCircle, ArrowRight, GitBranch } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
+import type { TraceHop } from '@/lib/solverRegistry';
+import type { LinkQuality } from '@/lib/releaseParser';
+import { LINK_MACHINE, isLinkOpen } from '@/lib/stateMachine';
 
 interface LogEntry {
   msg: string;
@@ -14,11 +17,16 @@ interface LinkCardProps {
   name: string;
   logs: LogEntry[];
   finalLink: string | null;
-  status: 'processing' | 'done' | 'error';
+  /** Raw / legacy strings bhi chalte hain — state machine normalize karta hai */
+  status: string;
+  trace?: TraceHop[];
+  quality?: LinkQuality | null;
 }
 
-export default function LinkCard({ id, name, logs, finalLink, status }: LinkCardProps) {
+export default function LinkCard({ id, name, logs, finalLink, status: rawStatus, trace = [], quality = null }: LinkCardProps) {
+  const status = isLinkOpen(rawStatus) ? 'processing' : LINK_MACHINE.normalize(rawStatus);
   const [copied, setCopied] = useState(false);
+  const [selectedHop, setSelectedHop] = useState<number | null>(null);
   const logEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -43,6 +51,7 @@ export default function LinkCard({ id, name, logs, finalLink, status }: LinkCard
     switch (status) {
       case 'done': return 'border-emerald-500 bg-emerald-500/5';
       case 'error': return 'border-rose-500 bg-rose-500/5';
+      case 'timeout': return 'border-amber-500 bg-amber-500/5';
       default: return 'border-indigo-500 bg-white/5';
     }
   };
@@ -57,6 +66,15 @@ export default function LinkCard({ id, name, logs, finalLink, status }: LinkCard
     }
   };
 
+  const getHopColor = (hopStatus: TraceHop['status']) => {
+    switch (hopStatus) {
+      case 'final': return 'bg-emerald-500/15 border-emerald-500/40 text-emerald-400';
+      case 'next': return 'bg-indigo-500/15 border-indigo-500/40 text-indigo-300';
+      case 'error': return 'bg-rose-500/15 border-rose-500/40 text-rose-400';
+      default: return 'bg-amber-500/15 border-amber-500/40 text-amber-400';
+    }
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -73,10 +91,66 @@ export default function LinkCard({ id, name, logs, finalLink, status }: LinkCard
         ) : status === 'done' ? (
           <CircleCheck className="w-5 h-5 text-emerald-500" />
         ) : (
-          <AlertCircle className="w-5 h-5 text-rose-500" />
+          <AlertCircle className={`w-5 h-5 ${status === 'timeout' ? 'text-amber-500' : 'text-rose-500'}`} />
         )}
       </div>
 
+      {/* Per-link Quality */}
+      {quality && (quality.label || quality.size || quality.audioLabel) && (
+        <div className="flex items-center gap-1.5 flex-wrap mb-3">
+          {quality.label && (
+            <span className="px-2 py-0.5 rounded-md bg-indigo-500/10 text-indigo-400 text-[10px] font-bold">{quality.label}</span>
+          )}
+          {quality.size && (
+            <span className="px-2 py-0.5 rounded-md bg-white/5 text-slate-400 text-[10px] font-mono">{quality.size}</span>
+          )}
+          {quality.audioLabel && (
+            <span className="px-2 py-0.5 rounded-md bg-amber-500/10 text-amber-400 text-[10px] font-bold">{quality.audioLabel}</span>
+          )}
+        </div>
+      )}
+
+      {/* Resolution Trace Chain */}
+      {trace.length > 0 && (
+        <div className="mb-3">
+          <div className="flex items-center gap-1 flex-wrap">
+            <GitBranch className="w-3 h-3 text-slate-500 mr-1" />
+            {trace.map((hop, i) => (
+              <div key={i} className="flex items-center gap-1">
+                {i > 0 && <ArrowRight className="w-3 h-3 text-slate-600" />}
+                <button
+                  onClick={() => setSelectedHop(selectedHop === i ? null : i)}
+                  className={`px-2 py-0.5 rounded-md border font-mono text-[10px] font-bold transition-all ${getHopColor(hop.status)} ${selectedHop === i ? 'ring-1 ring-white/30' : ''}`}
+                >
+                  {hop.solver}
+                  {hop.httpStatus ? ` ${hop.httpStatus}` : ''}
+                  <span className="opacity-60 font-normal"> {(hop.durationMs / 1000).toFixed(1)}s</span>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {selectedHop !== null && trace[selectedHop] && (
+            <div className="mt-2 bg-black/60 border border-white/5 rounded-lg p-2 font-mono text-[10px] text-slate-400 space-y-0.5 break-all">
+              <div><span className="text-slate-600">in: </span>{trace[selectedHop].input}</div>
+              <div><span className="text-slate-600">out: </span>{trace[selectedHop].output || '—'}</div>
+              <div>
+                <span className="text-slate-600">status: </span>{trace[selectedHop].status}
+                <span className="text-slate-600"> | http: </span>{trace[selectedHop].httpStatus ?? '—'}
+                <span className="text-slate-600"> | budget left: </span>{(trace[selectedHop].budgetRemainingMs / 1000).toFixed(1)}s
+              </div>
+              {trace[selectedHop].error && (
+                <div className="text-rose-400">
+                  <span className="text-slate-600">error: </span>
+                  {trace[selectedHop].errorKind && <span className="text-amber-400">[{trace[selectedHop].errorKind}] </span>}
+                  {trace[selectedHop].error}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Live Logs Terminal */}
       {logs.length > 0 && (
         <div 
@@ -4,6 +4,16 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { Bolt, Link as LinkIcon, Rocket, Loader2, RotateCcw, AlertTriangle, CircleCheck, History, ChevronRight, ChevronDown, Video, Film, Globe, Volume2, Sparkles, Home, Clock, CheckCircle2, XCircle, Trash2, RefreshCw, ExternalLink } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import LinkCard from '@/components/LinkCard';
+import type { TraceHop } from '@/lib/solverRegistry';
+import { useSession } from '@/hooks/use-session';
+import {
+  LINK_MACHINE,
+  deriveTaskStatus,
+  isLinkOpen,
+  summarizeLinks,
+  type LinkSummary,
+  type TaskStatus,
+} from '@/lib/stateMachine';
 
 interface LogEntry {
   msg: string;
@@ -13,9 +23,10 @@ interface LogEntry {
 interface Task {
   id: string;
   url: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: TaskStatus;
   createdAt: string;
-  links: any[];
+  /** List response mein sirf counts — links expand pe alag se load (taskLinks) */
+  linkCounts: LinkSummary;
   error?: string;
   preview?: {
     title: string;
@@ -25,6 +36,7 @@ interface Task {
     quality: string;
     languages: string;
     audioLabel: string;
+    resolutions?: string[];
   };
 }
 
@@ -46,19 +58,8 @@ function formatTime12h(isoString: string): string {
   }
 }
 
-function getLinkStats(links: any[]): { total: number; done: number; failed: number; pending: number } {
-  if (!links || links.length === 0) return { total: 0, done: 0, failed: 0, pending: 0 };
-  let done = 0, failed = 0, pending = 0;
-  for (const link of links) {
-    const s = (link.status || '').toLowerCase();
-    if (s === 'done' || s === 'success') done++;
-    else if (s === 'error' || s === 'failed') failed++;
-    else pending++;
-  }
-  return { total: links.length, done, failed, pending };
-}
-
 export default function MflixApp() {
+  const { can } = useSession();
   const [url, setUrl] = useState('');
   const [isConnecting, setIsConnecting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -66,6 +67,8 @@ export default function MflixApp() {
   const [error, setError] = useState<string | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [expandedTask, setExpandedTask] = useState<string | null>(null);
+  // taskId → links (GET /api/tasks?taskId=), sirf jo tasks khole gaye
+  const [taskLinks, setTaskLinks] = useState<Record<string, any[]>>({});
 
   const [activeTab, setActiveTab] = useState<TabType>('home');
 
@@ -73,6 +76,7 @@ export default function MflixApp() {
   const [liveLogs, setLiveLogs] = useState<Record<number, LogEntry[]>>({});
   const [liveLinks, setLiveLinks] = useState<Record<number, string | null>>({});
   const [liveStatuses, setLiveStatuses] = useState<Record<number, string>>({});
+  const [liveTraces, setLiveTraces] = useState<Record<number, TraceHop[]>>({});
 
   const [deletingTaskId, setDeletingTaskId] = useState<string | null>(null);
   const [retryingTaskId, setRetryingTaskId] = useState<string | null>(null);
@@ -89,6 +93,44 @@ export default function MflixApp() {
     return () => { if (pollRef.current) clearInterval(pollRef.current); };
   }, []);
 
+  // Ek task ke links (logs, trace ke saath) — shield data server ke purane
+  // "processing" ko overwrite na hone de
+  const loadTaskLinks = async (taskId: string): Promise<any[]> => {
+    try {
+      const res = await fetch(`/api/tasks?taskId=${encodeURIComponent(taskId)}`);
+      if (!res.ok) return [];
+      const data = await res.json();
+      if (!Array.isArray(data.links)) return [];
+
+      const endedAt = streamEndedAtRef.current[taskId];
+      const isRecentlyEnded = endedAt && (Date.now() - endedAt < 15000);
+      const shieldData = completedLinksRef.current[taskId] || {};
+
+      const mergedLinks = data.links.map((fbLink: any, idx: number) => {
+        const protectedLink = shieldData[idx];
+        if (protectedLink) {
+          if (isLinkOpen(fbLink.status) || isRecentlyEnded) {
+            return {
+              ...fbLink,
+              status: protectedLink.status,
+              finalLink: protectedLink.finalLink || fbLink.finalLink,
+              best_button_name: protectedLink.best_button_name || fbLink.best_button_name,
+              logs: protectedLink.logs || fbLink.logs,
+              trace: protectedLink.trace || fbLink.trace,
+            };
+          }
+        }
+        return fbLink;
+      });
+
+      setTaskLinks(prev => ({ ...prev, [taskId]: mergedLinks }));
+      return mergedLinks;
+    } catch (e) {
+      console.error('Failed to load task links:', e);
+      return [];
+    }
+  };
+
   const fetchTasks = async () => {
     try {
       const res = await fetch('/api/tasks');
@@ -100,7 +142,6 @@ export default function MflixApp() {
       if (Array.isArray(data)) {
         setTasks(prevTasks => {
           const currentlyStreamingIds = streamStartedRef.current;
-          const now = Date.now();
 
           return data.map((serverTask: Task) => {
             if (currentlyStreamingIds.has(serverTask.id)) {
@@ -108,42 +149,8 @@ export default function MflixApp() {
               if (localTask) return localTask;
             }
 
-            const endedAt = streamEndedAtRef.current[serverTask.id];
-            const isRecentlyEnded = endedAt && (now - endedAt < 15000);
-            const shieldData = completedLinksRef.current[serverTask.id] || {};
-            
-            const mergedLinks = (serverTask.links || []).map((fbLink: any, idx: number) => {
-              const protectedLink = shieldData[idx];
-              if (protectedLink) {
-                const fbStatus = (fbLink.status || '').toLowerCase();
-                const isFbPending = fbStatus === 'pending' || fbStatus === 'processing' || fbStatus === '';
-                if (isFbPending || isRecentlyEnded) {
-                  return {
-                    ...fbLink,
-                    status: protectedLink.status,
-                    finalLink: protectedLink.finalLink || fbLink.finalLink,
-                    best_button_name: protectedLink.best_button_name || fbLink.best_button_name,
-                    logs: protectedLink.logs || fbLink.logs,
-                  };
-                }
-              }
-              return fbLink;
-            });
-
-            const allDone = mergedLinks.length > 0 && mergedLinks.every((l: any) => {
-              const s = (l.status || '').toLowerCase();
-              return s === 'done' || s === 'success' || s === 'error' || s === 'failed';
-            });
-            const anySuccess = mergedLinks.some((l: any) => {
-              const s = (l.status || '').toLowerCase();
-              return s === 'done' || s === 'success';
-            });
-            
-            let newTaskStatus = serverTask.status;
-            if (allDone) newTaskStatus = anySuccess ? 'completed' : 'failed';
-            else if (isRecentlyEnded) newTaskStatus = 'processing';
-
-            return { ...serverTask, status: newTaskStatus, links: mergedLinks };
+            // Server bhi yahi derive karta hai — dono kabhi alag status nahi dikhayenge
+            return { ...serverTask, status: deriveTaskStatus(serverTask.linkCounts, serverTask.status) };
           });
         });
       }
@@ -152,38 +159,34 @@ export default function MflixApp() {
     }
   };
 
-  const getEffectiveStats = useCallback((task: Task): { total: number; done: number; failed: number; pending: number } => {
+  // Khula hua task — uske links load karo aur list ke saath hi taaza rakho
+  useEffect(() => {
+    if (!expandedTask) return;
+    loadTaskLinks(expandedTask);
+    const timer = setInterval(() => loadTaskLinks(expandedTask), 10000);
+    return () => clearInterval(timer);
+  }, [expandedTask]);
+
+  const getEffectiveStats = useCallback((task: Task): LinkSummary => {
+    const links = taskLinks[task.id];
+    // Links abhi load nahi hue → server ke aggregated counts
+    if (!links) return task.linkCounts || summarizeLinks([]);
+
     const isLive = activeTaskId === task.id;
     const shieldData = completedLinksRef.current[task.id] || {};
-    
-    const total = task.links?.length || 0;
-    let done = 0, failed = 0, pending = 0;
-
-    for (let i = 0; i < total; i++) {
-      let status = '';
-      if (isLive && liveStatuses[i]) {
-        status = liveStatuses[i];
-      } else if (shieldData[i]) {
-        status = shieldData[i].status;
-      } else {
-        status = task.links[i]?.status || '';
-      }
-
-      status = status.toLowerCase();
-      if (status === 'done' || status === 'success') done++;
-      else if (status === 'error' || status === 'failed') failed++;
-      else pending++;
-    }
 
-    return { total, done, failed, pending };
-  }, [activeTaskId, liveStatuses]);
+    return summarizeLinks(
+      links.map((link: any, i: number) => {
+        if (isLive && liveStatuses[i]) return liveStatuses[i];
+        if (shieldData[i]) return shieldData[i].status;
+        return link?.status;
+      })
+    );
+  }, [activeTaskId, liveStatuses, taskLinks]);
 
-  const getTrueTaskStatus = (task: Task, stats: { total: number; done: number; failed: number; pending: number }) => {
+  const getTrueTaskStatus = (task: Task, stats: LinkSummary): TaskStatus => {
     if (activeTaskId === task.id) return 'processing';
-    if (stats.total > 0 && stats.pending === 0) {
-      return stats.done > 0 ? 'completed' : 'failed';
-    }
-    return task.status;
+    return deriveTaskStatus(stats, task.status);
   };
 
   const startLiveStream = useCallback(async (taskId: string, links: any[]) => {
@@ -194,8 +197,7 @@ export default function MflixApp() {
       .map((l: any, idx: number) => ({ ...l, _originalIdx: idx }))
       .filter((l: any) => {
         if (shieldData[l._originalIdx]) return false;
-        const s = (l.status || '').toLowerCase();
-        return s === 'pending' || s === 'processing' || s === '';
+        return isLinkOpen(l.status);
       });
 
     if (pendingLinks.length === 0) return;
@@ -217,13 +219,13 @@ export default function MflixApp() {
         initialLinks[idx] = shieldData[idx].finalLink || null;
         initialStatuses[idx] = shieldData[idx].status;
       } else {
-        const s = (link.status || '').toLowerCase();
-        if (s === 'done' || s === 'success') {
+        const s = LINK_MACHINE.normalize(link.status);
+        if (s === 'done') {
           initialLogs[idx] = link.logs || [];
           initialLinks[idx] = link.finalLink || null;
           initialStatuses[idx] = 'done';
           completedLinksRef.current[taskId][idx] = { status: 'done', finalLink: link.finalLink, logs: link.logs };
-        } else if (s === 'error' || s === 'failed') {
+        } else if (s === 'error' || s === 'timeout') {
           initialLogs[idx] = [{ msg: '🔄 Retrying...', type: 'info' }];
           initialLinks[idx] = null;
           initialStatuses[idx] = 'processing';
@@ -238,6 +240,7 @@ export default function MflixApp() {
     setLiveLogs(initialLogs);
     setLiveLinks(initialLinks);
     setLiveStatuses(initialStatuses);
+    setLiveTraces({});
 
     try {
       const linksToSend = pendingLinks.map((l: any) => ({
@@ -292,6 +295,10 @@ export default function MflixApp() {
               setLiveLinks(prev => ({ ...prev, [lid]: data.final }));
             }
 
+            if (data.trace) {
+              setLiveTraces(prev => ({ ...prev, [lid]: data.trace }));
+            }
+
             if (data.status === 'done' || data.status === 'error') {
               setLiveStatuses(prev => ({ ...prev, [lid]: data.status }));
               setLiveLogs(currentLogs => {
@@ -300,7 +307,8 @@ export default function MflixApp() {
                     status: data.status,
                     finalLink: data.final || currentLinks[lid],
                     best_button_name: data.best_button_name,
-                    logs: currentLogs[lid] || []
+                    logs: currentLogs[lid] || [],
+                    trace: data.trace || [],
                   };
                   return currentLinks;
                 });
@@ -381,8 +389,8 @@ export default function MflixApp() {
         body: JSON.stringify({ url: trimmedUrl })
       });
 
-      if (!response.ok) throw new Error(`Server error: ${response.status}`);
-      const data = await response.json();
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.message || `Server error: ${response.status}`);
       if (data.error) throw new Error(data.error);
 
       setIsConnecting(false);
@@ -395,16 +403,8 @@ export default function MflixApp() {
         setActiveTab('processing');
         completedLinksRef.current[data.taskId] = {};
 
-        try {
-          const taskRes = await fetch('/api/tasks');
-          if (taskRes.ok) {
-            const taskList = await taskRes.json();
-            const newTask = taskList.find((t: any) => t.id === data.taskId);
-            if (newTask?.links?.length > 0) {
-              await startLiveStream(data.taskId, newTask.links);
-            }
-          }
-        } catch (e) {}
+        const links = await loadTaskLinks(data.taskId);
+        if (links.length > 0) await startLiveStream(data.taskId, links);
       }
 
       setUrl('');
@@ -433,6 +433,10 @@ export default function MflixApp() {
       if (!res.ok) throw new Error('Failed to delete');
 
       setTasks(prev => prev.filter(t => t.id !== taskId));
+      setTaskLinks(prev => {
+        const { [taskId]: _removed, ...rest } = prev;
+        return rest;
+      });
       if (expandedTask === taskId) setExpandedTask(null);
       
       delete completedLinksRef.current[taskId];
@@ -473,16 +477,8 @@ export default function MflixApp() {
       if (data.taskId) {
         setExpandedTask(data.taskId);
         setActiveTab('processing');
-        try {
-          const taskRes = await fetch('/api/tasks');
-          if (taskRes.ok) {
-            const taskList = await taskRes.json();
-            const newTask = taskList.find((t: any) => t.id === data.taskId);
-            if (newTask?.links?.length > 0) {
-              await startLiveStream(data.taskId, newTask.links);
-            }
-          }
-        } catch (e) {}
+        const links = await loadTaskLinks(data.taskId);
+        if (links.length > 0) await startLiveStream(data.taskId, links);
       }
     } catch (err: any) {
       setError(`Retry failed: ${err.message}`);
@@ -496,12 +492,12 @@ export default function MflixApp() {
     const shield = completedLinksRef.current[task.id]?.[linkIdx];
     
     if (isLive && liveStatuses[linkIdx]) {
-      return { logs: liveLogs[linkIdx] || [], finalLink: liveLinks[linkIdx] || null, status: liveStatuses[linkIdx] };
+      return { logs: liveLogs[linkIdx] || [], finalLink: liveLinks[linkIdx] || null, status: liveStatuses[linkIdx], trace: liveTraces[linkIdx] || [] };
     }
     if (shield) {
-      return { logs: shield.logs || [], finalLink: shield.finalLink || link.finalLink || null, status: shield.status };
+      return { logs: shield.logs || [], finalLink: shield.finalLink || link.finalLink || null, status: shield.status, trace: shield.trace || link.trace || [] };
     }
-    return { logs: link.logs || [], finalLink: link.finalLink || null, status: link.status || 'processing' };
+    return { logs: link.logs || [], finalLink: link.finalLink || null, status: link.status || 'processing', trace: link.trace || [] };
   };
 
   const getFilteredTasks = (): Task[] => {
@@ -546,7 +542,7 @@ export default function MflixApp() {
 
           <button
             onClick={startProcess}
-            disabled={isConnecting || isProcessing || isDone}
+            disabled={isConnecting || isProcessing || isDone || !can('operator')}
             className={`w-full py-4 rounded-2xl font-bold text-lg flex items-center justify-center gap-3 transition-all duration-300 shadow-lg active:scale-95 ${
               isDone ? 'bg-emerald-500 text-white' : error ? 'bg-rose-500 text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-800 disabled:opacity-70'
             }`}
@@ -624,14 +620,16 @@ export default function MflixApp() {
                 </div>
 
                 <div className="flex items-center gap-1.5 flex-shrink-0">
-                  {trueStatus === 'failed' && (
+                  {trueStatus === 'failed' && can('operator') && (
                     <button onClick={(e) => handleRetryTask(task, e)} disabled={retryingTaskId === task.id} className="p-2 rounded-xl bg-amber-500/10 border border-amber-500/20 text-amber-400 hover:bg-amber-500/20 transition-all disabled:opacity-50">
                       {retryingTaskId === task.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
                     </button>
                   )}
-                  <button onClick={(e) => handleDeleteTask(task.id, e)} disabled={deletingTaskId === task.id} className="p-2 rounded-xl bg-rose-500/10 border border-rose-500/20 text-rose-400 hover:bg-rose-500/20 transition-all disabled:opacity-50">
-                    {deletingTaskId === task.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
-                  </button>
+                  {can('admin') && (
+                    <button onClick={(e) => handleDeleteTask(task.id, e)} disabled={deletingTaskId === task.id} className="p-2 rounded-xl bg-rose-500/10 border border-rose-500/20 text-rose-400 hover:bg-rose-500/20 transition-all disabled:opacity-50">
+                      {deletingTaskId === task.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  )}
                   {expandedTask === task.id ? <ChevronDown className="w-5 h-5 text-slate-500" /> : <ChevronRight className="w-5 h-5 text-slate-500" />}
                 </div>
               </div>
@@ -687,7 +685,7 @@ export default function MflixApp() {
                       )}
 
                       <div className="space-y-3">
-                        {task.links.map((link: any, idx: number) => {
+                        {(taskLinks[task.id] || []).map((link: any, idx: number) => {
                           const effective = getEffectiveLinkData(task, idx, link);
                           return (
                             <LinkCard
@@ -696,11 +694,19 @@ export default function MflixApp() {
                               name={link.name}
                               logs={effective.logs}
                               finalLink={effective.finalLink}
-                              status={effective.status as any}
+                              status={effective.status}
+                              trace={effective.trace}
+                              quality={link.quality}
                             />
                           );
                         })}
-                        {task.links.length === 0 && (
+                        {!taskLinks[task.id] && stats.total > 0 && (
+                          <div className="flex items-center justify-center py-6 text-slate-400">
+                            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                            <p className="text-sm">Loading links...</p>
+                          </div>
+                        )}
+                        {stats.total === 0 && (
                           <div className="flex flex-col items-center py-8 text-slate-400">
                             <Loader2 className="w-8 h-8 animate-spin mb-2" />
                             <p className="text-sm">Scraping in progress...</p>
@@ -0,0 +1,23 @@
+'use client';
+
+import * as React from 'react';
+import { hasRole, type Role, type SessionInfo } from '@/lib/roles';
+
+// AuthGate session provide karta hai — andar ke components role dekh ke UI chhupate hain
+export const SessionContext = React.createContext<SessionInfo | null>(null);
+
+export function useSession() {
+  const session = React.useContext(SessionContext);
+
+  const can = React.useCallback(
+    (required: Role) => hasRole(session?.principal?.role, required),
+    [session]
+  );
+
+  const logout = React.useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {});
+    window.location.href = '/login';
+  }, []);
+
+  return { session, can, logout };
+}
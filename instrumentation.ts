@@ -0,0 +1,26 @@
+/**
+ * Next.js server boot hook.
+ * WORKER_AUTOSTART=true ho toh server start hote hi background worker chalu ho jata hai
+ * (self-hosted box ke liye — koi browser tab khula hona zaroori nahi).
+ * Saved links ka liveness re-verification bhi isi mode mein schedule hota hai.
+ * MOCK_BACKENDS=true (dev only) → proxy / HubCloud / timer APIs ke mocks start.
+ */
+export async function register() {
+  // 🧪 Dev / e2e: Python backends ki jagah TypeScript mocks
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.MOCK_BACKENDS === 'true' &&
+    process.env.NODE_ENV !== 'production'
+  ) {
+    const { startMockBackends } = await import('./lib/mocks/solverBackends');
+    await startMockBackends();
+  }
+
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.WORKER_AUTOSTART === 'true') {
+    const { kickWorker } = await import('./lib/jobRunner');
+    kickWorker();
+
+    const { scheduleLinkVerification } = await import('./lib/linkVerifier');
+    scheduleLinkVerification();
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// =============================================================================
+// 🧾 API ERRORS + REQUEST VALIDATION — har route ka ek hi error shape
+// =============================================================================
+// Pehle koi route `{ error }` bhejta tha, koi `{ status: 'error', message }`,
+// aur body jaise aayi waise hi DB tak pahunch jati thi. Ab:
+//   { status: 'error', code, message, issues? }
+// aur body / query zod schema (lib/apiSchemas.ts) se guzar ke hi andar jati hai.
+// =============================================================================
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'validation_failed'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'invalid_transition'
+  | 'conflict'
+  | 'internal';
+
+const STATUS_FOR_CODE: Record<ApiErrorCode, number> = {
+  invalid_json: 400,
+  validation_failed: 400,
+  unauthenticated: 401,
+  forbidden: 403,
+  not_found: 404,
+  invalid_transition: 409,
+  conflict: 409,
+  internal: 500,
+};
+
+export interface ApiIssue {
+  path: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  status: 'error';
+  code: ApiErrorCode;
+  message: string;
+  issues?: ApiIssue[];
+  [extra: string]: unknown;
+}
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  extra: Omit<Partial<ApiErrorBody>, 'status' | 'code' | 'message'> = {}
+): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ status: 'error', code, message, ...extra }, { status: STATUS_FOR_CODE[code] });
+}
+
+/** catch block ke liye — unknown error → 500 internal */
+export function internalError(route: string, e: unknown): NextResponse<ApiErrorBody> {
+  const message = e instanceof Error ? e.message : String(e);
+  console.error(`[${route}] Error:`, message);
+  return apiError('internal', message);
+}
+
+export type ParseResult<T> = { ok: true; data: T } | { ok: false; response: NextResponse<ApiErrorBody> };
+
+function issuesOf(error: z.ZodError): ApiIssue[] {
+  return error.issues.map((i) => ({ path: i.path.join('.') || '(root)', message: i.message }));
+}
+
+function validate<S extends z.ZodType>(schema: S, input: unknown): ParseResult<z.infer<S>> {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) return { ok: true, data: parsed.data };
+
+  const issues = issuesOf(parsed.error);
+  return {
+    ok: false,
+    response: apiError('validation_failed', `Invalid request: ${issues[0].path} — ${issues[0].message}`, { issues }),
+  };
+}
+
+/**
+ * Route guard: `const body = await parseBody(req, schema); if (!body.ok) return body.response;`
+ * `optional: true` → khali body `{}` maani jati hai (cron wale POSTs).
+ */
+export async function parseBody<S extends z.ZodType>(
+  req: Request,
+  schema: S,
+  options: { optional?: boolean } = {}
+): Promise<ParseResult<z.infer<S>>> {
+  const text = await req.text().catch(() => '');
+  if (!text.trim()) {
+    return options.optional ? validate(schema, {}) : { ok: false, response: apiError('invalid_json', 'Request body is required') };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { ok: false, response: apiError('invalid_json', 'Invalid JSON in request body') };
+  }
+  return validate(schema, json);
+}
+
+/** URL query params → schema (sab values string hain, schema coerce kare) */
+export function parseQuery<S extends z.ZodType>(req: Request, schema: S): ParseResult<z.infer<S>> {
+  return validate(schema, Object.fromEntries(new URL(req.url).searchParams));
+}
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { QUEUE_COLLECTIONS } from './storage';
+import { VERIFY_COLLECTIONS } from './linkVerifier';
+import { QUEUE_STATUSES } from './stateMachine';
+
+// =============================================================================
+// 📐 API SCHEMAS — har route ki body / query ka ek hi source of truth
+// =============================================================================
+// Collection names hamesha allow-list se (kabhi raw string DB tak nahi),
+// doc ids Firestore ke rules ke hisaab se, URLs sirf http(s).
+// Routes: `parseBody(req, Schema)` / `parseQuery(req, Schema)` (lib/apiErrors.ts)
+// =============================================================================
+
+/** Firestore doc id — khali nahi, '/' nahi (warna path ban jata hai) */
+const docId = z
+  .string()
+  .trim()
+  .min(1, 'is required')
+  .max(1500)
+  .regex(/^[^/]+$/, 'must not contain "/"');
+
+const httpUrl = z
+  .string()
+  .trim()
+  .min(1, 'is required')
+  .pipe(z.url({ protocol: /^https?$/, message: 'must be an http(s) URL' }));
+
+export const queueCollection = z.enum(QUEUE_COLLECTIONS, {
+  message: `must be one of: ${QUEUE_COLLECTIONS.join(', ')}`,
+});
+
+export const verifyCollection = z.enum(VERIFY_COLLECTIONS, {
+  message: `must be one of: ${VERIFY_COLLECTIONS.join(', ')}`,
+});
+
+// ==================== /api/tasks ====================
+
+export const CreateTaskBody = z.object({ url: httpUrl });
+
+/** GET ?taskId= (detail + links) aur DELETE dono */
+export const TaskIdInput = z.object({ taskId: docId });
+
+// ==================== /api/stream_solve ====================
+
+export const StreamSolveBody = z.object({ taskId: docId });
+
+// ==================== /api/auto-process ====================
+
+export const AutoProcessBody = z.object({
+  queueId: docId,
+  collection: queueCollection,
+});
+
+export const QueueListQuery = z.object({
+  type: z.enum(['all', 'movies', 'webseries']).default('all'),
+});
+
+/** 'processing' sirf worker lease ke saath set karta hai — manual PATCH se nahi */
+const manualQueueStatus = z.enum(QUEUE_STATUSES).exclude(['processing'], {
+  message: 'must be one of: pending, completed, failed',
+});
+
+export const QueuePatchBody = z.object({
+  id: docId,
+  collection: queueCollection,
+  status: manualQueueStatus,
+  error: z.string().trim().max(2000).optional(),
+});
+
+// ==================== /api/get_list ====================
+
+export const GetListBody = z.object({
+  url: httpUrl,
+  diagnostics: z.boolean().optional(),
+  includeHtml: z.boolean().optional(),
+});
+
+// ==================== /api/snapshots ====================
+
+export const SnapshotsQuery = z.object({ url: httpUrl });
+
+export const SnapshotReplayBody = z.object({
+  url: httpUrl,
+  at: z.iso.datetime({ offset: true }).optional(),
+  solve: z.boolean().optional(),
+});
+
+// ==================== /api/verify-links ====================
+
+export const VerifyLinksBody = z
+  .object({
+    collection: verifyCollection.optional(),
+    docId: docId.optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+  })
+  .refine((b) => !b.docId || b.collection, { message: 'docId requires collection', path: ['collection'] });
+
+// ==================== /api/worker ====================
+
+export const WorkerBody = z.object({ mode: z.enum(['kick', 'cycle']).default('kick') });
+
+// ==================== /api/auth/login ====================
+
+export const LoginBody = z.union([
+  z.object({ apiKey: z.string().trim().min(1, 'is required') }),
+  z.object({ username: z.string().trim().min(1, 'is required'), password: z.string().min(1, 'is required') }),
+], { message: 'provide username + password or apiKey' });
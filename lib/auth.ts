@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import type { NextResponse } from 'next/server';
+import { apiError } from './apiErrors';
+import { hasRole, isRole, type Role } from './roles';
+
+// =============================================================================
+// 🔐 AUTH — API keys + session login, role-based access
+// =============================================================================
+// Do tareeke:
+// - API key  : `x-api-key: <key>` ya `Authorization: Bearer <key>` (scripts / cron)
+// - Session  : POST /api/auth/login → signed httpOnly cookie (UI)
+// Config (env):
+//   AUTH_API_KEYS = "name:role:key,..."            e.g. "cron:operator:s3cr3t"
+//   AUTH_USERS    = "username:role:salt:scryptHex,..."
+//   AUTH_SECRET   = session cookie signing secret
+//   AUTH_MODE=off → auth band (sirf local dev) — sab requests admin
+// Har route khud authorize(req, role) call karta hai.
+// =============================================================================
+
+export interface Principal {
+  id: string;
+  role: Role;
+  via: 'session' | 'api-key' | 'disabled';
+}
+
+export type AuthResult =
+  | { ok: true; principal: Principal }
+  | { ok: false; response: NextResponse };
+
+export const SESSION_COOKIE = 'mflix_session';
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface Credential {
+  id: string;
+  role: Role;
+  secret: string;
+}
+
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_MODE === 'off';
+}
+
+const globalForAuth = globalThis as typeof globalThis & { __mflixAuthSecret?: string };
+
+// .env.example ki purani placeholder value — copy-paste ho gayi toh cookies forge ho sakti hain
+const PLACEHOLDER_SECRETS = ['change-me-to-a-long-random-string'];
+const MIN_SECRET_BYTES = 32;
+
+/**
+ * Signing secret. AUTH_SECRET placeholder ya 32 bytes se chhota ho toh throw —
+ * kamzor secret se na sign karo na verify (sessions band, API keys chalti rehti hain).
+ */
+function sessionSecret(): string {
+  const configured = process.env.AUTH_SECRET;
+  if (configured) {
+    if (PLACEHOLDER_SECRETS.includes(configured) || Buffer.byteLength(configured) < MIN_SECRET_BYTES) {
+      throw new Error(`AUTH_SECRET is a placeholder or shorter than ${MIN_SECRET_BYTES} bytes — refusing to sign sessions`);
+    }
+    return configured;
+  }
+  // Dev fallback: per-process random — restart pe sab logout ho jate hain
+  if (!globalForAuth.__mflixAuthSecret) {
+    console.warn('[Auth] ⚠️ AUTH_SECRET not set — using a random per-process secret');
+    globalForAuth.__mflixAuthSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return globalForAuth.__mflixAuthSecret;
+}
+
+/** "a:b:c,d:e:f" → entries; galat role wali entry skip */
+function parseEntries(raw: string | undefined, parts: number): string[][] {
+  return (raw || '')
+    .split(',')
+    .map((e) => e.trim())
+    .filter(Boolean)
+    .map((e) => e.split(':'))
+    .filter((p) => {
+      const ok = p.length === parts && isRole(p[1]);
+      if (!ok) console.warn(`[Auth] ⚠️ Ignoring malformed auth entry "${p[0]}"`);
+      return ok;
+    });
+}
+
+function apiKeys(): Credential[] {
+  return parseEntries(process.env.AUTH_API_KEYS, 3).map(([id, role, secret]) => ({ id, role: role as Role, secret }));
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+/** Password hash banao — AUTH_USERS entry ke liye "salt:hash" */
+export function hashPassword(password: string, salt = crypto.randomBytes(16).toString('hex')): string {
+  return `${salt}:${crypto.scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+export function verifyUserPassword(username: string, password: string): Principal | null {
+  const user = parseEntries(process.env.AUTH_USERS, 4).find(([id]) => id === username);
+  if (!user) return null;
+  const [id, role, salt, hash] = user;
+  return safeEqual(hashPassword(password, salt), `${salt}:${hash}`) ? { id, role: role as Role, via: 'session' } : null;
+}
+
+export function verifyApiKey(key: string): Principal | null {
+  const match = apiKeys().find((k) => safeEqual(k.secret, key));
+  return match ? { id: match.id, role: match.role, via: 'api-key' } : null;
+}
+
+// =============================================================================
+// SESSION TOKEN — base64url(JSON).hmac
+// =============================================================================
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+}
+
+export function createSessionToken(principal: Principal): string {
+  const payload = Buffer.from(
+    JSON.stringify({ sub: principal.id, role: principal.role, exp: Date.now() + SESSION_TTL_MS })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+function readSessionToken(token: string): Principal | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  let expected: string;
+  try {
+    expected = sign(payload);
+  } catch (e: any) {
+    console.error(`[Auth] ❌ ${e.message}`);
+    return null;
+  }
+  if (!safeEqual(expected, signature)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (typeof data.exp !== 'number' || data.exp < Date.now() || !isRole(data.role)) return null;
+    return { id: String(data.sub), role: data.role, via: 'session' };
+  } catch {
+    return null;
+  }
+}
+
+function cookieValue(req: Request, name: string): string | null {
+  const header = req.headers.get('cookie') || '';
+  for (const part of header.split(';')) {
+    const [k, ...v] = part.trim().split('=');
+    if (k === name) return decodeURIComponent(v.join('='));
+  }
+  return null;
+}
+
+/** Request kaun bhej raha hai — API key pehle, phir session cookie */
+export function getPrincipal(req: Request): Principal | null {
+  if (isAuthDisabled()) return { id: 'local', role: 'admin', via: 'disabled' };
+
+  const bearer = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const key = req.headers.get('x-api-key') || bearer;
+  if (key) return verifyApiKey(key.trim());
+
+  const token = cookieValue(req, SESSION_COOKIE);
+  return token ? readSessionToken(token) : null;
+}
+
+/**
+ * Route guard: `const auth = authorize(req, 'operator'); if (!auth.ok) return auth.response;`
+ * Login nahi → 401, role kam → 403.
+ */
+export function authorize(req: Request, required: Role): AuthResult {
+  const principal = getPrincipal(req);
+
+  if (!principal) {
+    return { ok: false, response: apiError('unauthenticated', 'Authentication required', { requiredRole: required }) };
+  }
+  if (!hasRole(principal.role, required)) {
+    return {
+      ok: false,
+      response: apiError('forbidden', `Requires ${required} role`, { requiredRole: required, role: principal.role }),
+    };
+  }
+  return { ok: true, principal };
+}
+
+export function sessionCookieOptions(maxAgeMs = SESSION_TTL_MS) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: Math.floor(maxAgeMs / 1000),
+  };
+}
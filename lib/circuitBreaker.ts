@@ -0,0 +1,235 @@
+// =============================================================================
+// 🔌 CIRCUIT BREAKER — Per-backend + per-host failure protection
+// =============================================================================
+// Agar koi Python service (5000 / 5001 / 10000) ya target host down hai,
+// toh har link uska poora API_TIMEOUTS wait na kare.
+// - CLOSED: normal, requests jaati hain
+// - OPEN: baar baar fail hua → turant fail fast (koi network call nahi)
+// - HALF-OPEN: cooldown ke baad ek trial request; success → CLOSED, fail → OPEN
+// =============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Local solver backends — ek hi jagah URLs, health probes + mocks bhi yahi use karte hain.
+ * PROXY_API_URL / HUBCLOUD_API_URL / TIMER_API_URL se override ho sakte hain.
+ */
+export const SOLVER_BACKENDS = {
+  proxy: {
+    key: 'backend:proxy',
+    label: 'Cloudscraper Proxy',
+    baseUrl: process.env.PROXY_API_URL || 'http://127.0.0.1:5001',
+  },
+  hubcloud: {
+    key: 'backend:hubcloud-api',
+    label: 'HubCloud API',
+    baseUrl: process.env.HUBCLOUD_API_URL || 'http://127.0.0.1:5000',
+  },
+  timer: {
+    key: 'backend:timer-api',
+    label: 'Timer Bypass API',
+    baseUrl: process.env.TIMER_API_URL || 'http://127.0.0.1:10000',
+  },
+} as const;
+
+const WINDOW_SIZE = 20;               // Last N calls pe failure rate
+const MIN_SAMPLES = 5;                // Rate tabhi count ho jab itne samples hon
+const FAILURE_RATE_THRESHOLD = 0.5;   // 50%+ fail → OPEN
+const CONSECUTIVE_FAILURE_LIMIT = 3;  // Ya lagatar 3 fail → OPEN
+const OPEN_COOLDOWN_MS = 30_000;      // OPEN → HALF-OPEN after 30s
+
+interface Sample {
+  ok: boolean;
+  latencyMs: number;
+  at: number;
+}
+
+interface CircuitRecord {
+  key: string;
+  state: CircuitState;
+  samples: Sample[];
+  consecutiveFailures: number;
+  openedAt: number | null;
+  halfOpenInFlight: boolean;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+}
+
+export interface CircuitSnapshot {
+  key: string;
+  state: CircuitState;
+  calls: number;
+  failureRate: number;
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  retryAt: string | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly key: string) {
+    super(`🔌 Circuit open for ${key} — failing fast`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const globalForCircuits = globalThis as typeof globalThis & {
+  __mflixCircuits?: Map<string, CircuitRecord>;
+};
+
+function getCircuits(): Map<string, CircuitRecord> {
+  if (!globalForCircuits.__mflixCircuits) globalForCircuits.__mflixCircuits = new Map();
+  return globalForCircuits.__mflixCircuits;
+}
+
+function getRecord(key: string): CircuitRecord {
+  const circuits = getCircuits();
+  let record = circuits.get(key);
+  if (!record) {
+    record = {
+      key,
+      state: 'closed',
+      samples: [],
+      consecutiveFailures: 0,
+      openedAt: null,
+      halfOpenInFlight: false,
+      lastError: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+    };
+    circuits.set(key, record);
+  }
+  return record;
+}
+
+/** Target host ka circuit key (e.g. `host:hubdrive.space`) */
+export function hostKey(url: string): string {
+  try {
+    return `host:${new URL(url).hostname}`;
+  } catch {
+    return 'host:unknown';
+  }
+}
+
+function pushSample(record: CircuitRecord, sample: Sample) {
+  record.samples.push(sample);
+  if (record.samples.length > WINDOW_SIZE) record.samples.shift();
+}
+
+function failureRate(record: CircuitRecord): number {
+  if (record.samples.length === 0) return 0;
+  return record.samples.filter((s) => !s.ok).length / record.samples.length;
+}
+
+/** Kya abhi is key pe request bhej sakte hain? (OPEN → cooldown ke baad HALF-OPEN) */
+export function canRequest(key: string): boolean {
+  const record = getRecord(key);
+  if (record.state === 'closed') return true;
+
+  if (record.state === 'open') {
+    if (record.openedAt && Date.now() - record.openedAt >= OPEN_COOLDOWN_MS) {
+      record.state = 'half-open';
+      record.halfOpenInFlight = false;
+    } else {
+      return false;
+    }
+  }
+
+  // HALF-OPEN: sirf ek trial request
+  if (record.halfOpenInFlight) return false;
+  record.halfOpenInFlight = true;
+  return true;
+}
+
+export function recordSuccess(key: string, latencyMs: number): void {
+  const record = getRecord(key);
+  pushSample(record, { ok: true, latencyMs, at: Date.now() });
+  record.consecutiveFailures = 0;
+  record.lastSuccessAt = Date.now();
+  record.halfOpenInFlight = false;
+  if (record.state !== 'closed') {
+    console.log(`[Circuit] ✅ ${key} recovered → CLOSED`);
+    record.state = 'closed';
+    record.openedAt = null;
+    record.samples = record.samples.slice(-1);
+  }
+}
+
+export function recordFailure(key: string, latencyMs: number, error: string): void {
+  const record = getRecord(key);
+  pushSample(record, { ok: false, latencyMs, at: Date.now() });
+  record.consecutiveFailures++;
+  record.lastError = error;
+  record.lastFailureAt = Date.now();
+  record.halfOpenInFlight = false;
+
+  const tooManyInARow = record.consecutiveFailures >= CONSECUTIVE_FAILURE_LIMIT;
+  const rateTooHigh = record.samples.length >= MIN_SAMPLES && failureRate(record) >= FAILURE_RATE_THRESHOLD;
+
+  if (record.state === 'half-open' || (record.state === 'closed' && (tooManyInARow || rateTooHigh))) {
+    console.warn(`[Circuit] 🔌 ${key} → OPEN (${record.consecutiveFailures} consecutive failures, ${(failureRate(record) * 100).toFixed(0)}% failure rate)`);
+    record.state = 'open';
+    record.openedAt = Date.now();
+  }
+}
+
+/**
+ * Kisi bhi async call ko circuit ke andar chalao.
+ * OPEN ho toh turant CircuitOpenError throw hoga (koi network call nahi).
+ * `isFailure` se decide karo ki kaunsa error backend ki galti hai (default: sab).
+ */
+export async function withCircuit<T>(
+  key: string,
+  fn: () => Promise<T>,
+  isFailure: (error: any) => boolean = () => true
+): Promise<T> {
+  if (!canRequest(key)) throw new CircuitOpenError(key);
+
+  const startedAt = Date.now();
+  try {
+    const result = await fn();
+    recordSuccess(key, Date.now() - startedAt);
+    return result;
+  } catch (error: any) {
+    if (isFailure(error)) {
+      recordFailure(key, Date.now() - startedAt, error?.message || String(error));
+    } else {
+      recordSuccess(key, Date.now() - startedAt);
+    }
+    throw error;
+  }
+}
+
+function toSnapshot(record: CircuitRecord): CircuitSnapshot {
+  const latencies = record.samples.map((s) => s.latencyMs);
+  return {
+    key: record.key,
+    state: record.state,
+    calls: record.samples.length,
+    failureRate: Number(failureRate(record).toFixed(2)),
+    avgLatencyMs: latencies.length
+      ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length)
+      : null,
+    consecutiveFailures: record.consecutiveFailures,
+    lastError: record.lastError,
+    lastSuccessAt: record.lastSuccessAt ? new Date(record.lastSuccessAt).toISOString() : null,
+    lastFailureAt: record.lastFailureAt ? new Date(record.lastFailureAt).toISOString() : null,
+    retryAt:
+      record.state === 'open' && record.openedAt
+        ? new Date(record.openedAt + OPEN_COOLDOWN_MS).toISOString()
+        : null,
+  };
+}
+
+/** Health scoreboard — saare backends (hamesha) + jo hosts ab tak dekhe gaye */
+export function getHealthSnapshot(): { backends: CircuitSnapshot[]; hosts: CircuitSnapshot[] } {
+  const backends = Object.values(SOLVER_BACKENDS).map((b) => toSnapshot(getRecord(b.key)));
+  const hosts = Array.from(getCircuits().values())
+    .filter((r) => r.key.startsWith('host:'))
+    .map(toSnapshot)
+    .sort((a, b) => b.failureRate - a.failureRate);
+  return { backends, hosts };
+}
@@ -0,0 +1,416 @@
+import { SOLVER_BACKENDS, hostKey, withCircuit } from './circuitBreaker';
+import { RETRY_POLICIES, withRetry } from './retryPolicy';
+import { SolverFailureError, classifySolverError, kindForHttpStatus, type SolverError } from './solverResult';
+import {
+  GlobalTimeoutBudget,
+  adaptiveTimeout,
+  safeFetch,
+  trackLatency,
+  type ApiName,
+} from './timeout';
+
+// =============================================================================
+// 🧗 FETCH STRATEGY CHAIN — Page HTML laane ke ordered tareeke
+// =============================================================================
+// Pehle fetchPageHTML mein fixed Plan A (cloudscraper proxy) + Plan B (direct)
+// tha. Ab har tareeka ek FetchStrategy hai — apne headers, cookie jar aur
+// block-detection rules ke saath. Chain order:
+//   1. Is domain pe jo strategy last time chali thi (yaad rehti hai)
+//   2. Baaki FETCH_STRATEGIES env order mein (default: registry order)
+// Naya tareeka (FlareSolverr, doosra proxy...) = ek registerFetchStrategy() call.
+// Har strategy ka baseUrl configurable hai — local mock (lib/mocks) pe test karo.
+// =============================================================================
+
+export const CLOUDFLARE_MARKERS = ['cf-challenge', 'Just a moment...', 'Checking your browser', 'cf-turnstile'];
+
+export interface FetchDetectionRules {
+  /** Ye HTTP status = blocked (same strategy dobara nahi, agli strategy) */
+  blockedStatuses: number[];
+  /** HTML mein ye mile = challenge page, asli content nahi */
+  challengeMarkers: string[];
+}
+
+export interface StrategyResponse {
+  status: number;
+  html: string;
+  finalUrl: string;
+  /** Response se mile cookies — strategy ke jar mein save hote hain */
+  cookies?: Record<string, string>;
+}
+
+export interface StrategyRequest {
+  headers: Record<string, string>;
+  /** Is domain ke liye jar ki cookies (Cookie header already `headers` mein hai) */
+  cookies: Record<string, string>;
+  timeoutMs: number;
+  budget?: GlobalTimeoutBudget;
+}
+
+export interface FetchStrategy {
+  /** Unique id — ExtractionDiagnostics.fetchedVia mein yahi aata hai */
+  name: string;
+  label: string;
+  headers: Record<string, string>;
+  useCookieJar: boolean;
+  detection: FetchDetectionRules;
+  /** Adaptive timeout + latency tracking kis bucket mein */
+  timeoutApi: ApiName;
+  /**
+   * host → circuit per target host (block = host ki galti)
+   * backend → local service ka circuit (target site ka block service ki galti nahi)
+   */
+  circuit: { scope: 'host' } | { scope: 'backend'; key: string };
+  request: (url: string, req: StrategyRequest) => Promise<StrategyResponse>;
+}
+
+const DEFAULT_DETECTION: FetchDetectionRules = {
+  blockedStatuses: [403, 429, 503],
+  challengeMarkers: CLOUDFLARE_MARKERS,
+};
+
+// =============================================================================
+// COOKIE JAR + DOMAIN MEMORY (globalThis — HMR reloads ke baad bhi same)
+// =============================================================================
+
+interface FetchStrategyState {
+  /** strategy → hostname → cookie name → value */
+  jars: Map<string, Map<string, Record<string, string>>>;
+  /** hostname → strategy jo last time kaam ki */
+  preferred: Map<string, string>;
+}
+
+const globalForFetch = globalThis as typeof globalThis & { __mflixFetchStrategies?: FetchStrategyState };
+
+function getState(): FetchStrategyState {
+  if (!globalForFetch.__mflixFetchStrategies) {
+    globalForFetch.__mflixFetchStrategies = { jars: new Map(), preferred: new Map() };
+  }
+  return globalForFetch.__mflixFetchStrategies;
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function jarCookies(strategy: string, hostname: string): Record<string, string> {
+  return getState().jars.get(strategy)?.get(hostname) || {};
+}
+
+function storeCookies(strategy: string, hostname: string, cookies: Record<string, string>) {
+  if (Object.keys(cookies).length === 0) return;
+  const state = getState();
+  let jar = state.jars.get(strategy);
+  if (!jar) {
+    jar = new Map();
+    state.jars.set(strategy, jar);
+  }
+  jar.set(hostname, { ...(jar.get(hostname) || {}), ...cookies });
+}
+
+/** Set-Cookie headers → { name: value } (attributes ignore) */
+function parseSetCookies(headers: Headers): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const line of headers.getSetCookie?.() || []) {
+    const [pair] = line.split(';');
+    const eq = pair.indexOf('=');
+    if (eq > 0) cookies[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+  }
+  return cookies;
+}
+
+// =============================================================================
+// BUILT-IN STRATEGIES
+// =============================================================================
+
+/** Cloudscraper-compatible proxy: GET {baseUrl}/fetch?url= → { status, html, status_code, url } */
+export function createProxyStrategy(options: {
+  name: string;
+  label: string;
+  baseUrl: string;
+  backendKey: string;
+}): FetchStrategy {
+  return {
+    name: options.name,
+    label: options.label,
+    headers: {},
+    // Cloudscraper apni session khud sambhalta hai
+    useCookieJar: false,
+    detection: DEFAULT_DETECTION,
+    timeoutApi: 'PROXY_FETCH',
+    circuit: { scope: 'backend', key: options.backendKey },
+    request: async (url, req) => {
+      const resp = await safeFetch(
+        `${options.baseUrl}/fetch?url=${encodeURIComponent(url)}`,
+        { timeoutMs: req.timeoutMs },
+        req.budget
+      );
+      const data = await resp.json();
+
+      if (data.status === 'success' && data.html) {
+        return { status: data.status_code ?? 200, html: data.html, finalUrl: data.url || url };
+      }
+      throw new SolverFailureError(
+        resp.status >= 500 ? 'backend_down' : 'unknown',
+        data.message || 'Proxy returned non-success',
+        resp.status
+      );
+    },
+  };
+}
+
+/** Seedha target site — mobile UA + per-domain cookie jar */
+export const directStrategy: FetchStrategy = {
+  name: 'direct',
+  label: 'Direct fetch',
+  headers: {
+    "User-Agent": "Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36",
+    "Referer": "https://www.google.com/",
+    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+    "Accept-Language": "en-US,en;q=0.9,hi;q=0.8",
+  },
+  useCookieJar: true,
+  detection: DEFAULT_DETECTION,
+  timeoutApi: 'DIRECT_FETCH',
+  circuit: { scope: 'host' },
+  request: async (url, req) => {
+    const resp = await safeFetch(url, { headers: req.headers, timeoutMs: req.timeoutMs }, req.budget);
+    return {
+      status: resp.status,
+      html: await resp.text(),
+      finalUrl: resp.url || url,
+      cookies: parseSetCookies(resp.headers),
+    };
+  },
+};
+
+/**
+ * FlareSolverr-compatible endpoint: POST {endpoint}/v1 { cmd: 'request.get', url }
+ * → { status: 'ok', solution: { url, status, response, cookies, userAgent } }
+ */
+export function createFlareSolverrStrategy(options: { name?: string; endpoint: string }): FetchStrategy {
+  const name = options.name || 'flaresolverr';
+  return {
+    name,
+    label: 'FlareSolverr',
+    headers: {},
+    useCookieJar: true,
+    // Browser challenge khud solve karta hai — sirf status se block maano
+    detection: { blockedStatuses: [403, 429], challengeMarkers: ['cf-challenge', 'cf-turnstile'] },
+    timeoutApi: 'FLARESOLVERR',
+    circuit: { scope: 'backend', key: `backend:${name}` },
+    request: async (url, req) => {
+      const resp = await safeFetch(
+        `${options.endpoint}/v1`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            cmd: 'request.get',
+            url,
+            maxTimeout: req.timeoutMs,
+            cookies: Object.entries(req.cookies).map(([cookieName, value]) => ({ name: cookieName, value })),
+          }),
+          timeoutMs: req.timeoutMs,
+        },
+        req.budget
+      );
+      const data = await resp.json();
+
+      if (data.status === 'ok' && data.solution) {
+        const cookies: Record<string, string> = {};
+        for (const c of data.solution.cookies || []) cookies[c.name] = c.value;
+        return {
+          status: data.solution.status ?? 200,
+          html: data.solution.response || '',
+          finalUrl: data.solution.url || url,
+          cookies,
+        };
+      }
+      throw new SolverFailureError(
+        resp.status >= 500 ? 'backend_down' : 'unknown',
+        data.message || 'FlareSolverr returned non-ok',
+        resp.status
+      );
+    },
+  };
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const FETCH_STRATEGIES: FetchStrategy[] = [
+  createProxyStrategy({
+    name: 'proxy',
+    label: SOLVER_BACKENDS.proxy.label,
+    baseUrl: SOLVER_BACKENDS.proxy.baseUrl,
+    backendKey: SOLVER_BACKENDS.proxy.key,
+  }),
+  directStrategy,
+];
+
+// Optional extra strategies — env se
+if (process.env.ALT_PROXY_URL) {
+  FETCH_STRATEGIES.splice(1, 0, createProxyStrategy({
+    name: 'alt-proxy',
+    label: 'Alternate Proxy',
+    baseUrl: process.env.ALT_PROXY_URL,
+    backendKey: 'backend:alt-proxy',
+  }));
+}
+if (process.env.FLARESOLVERR_URL) {
+  FETCH_STRATEGIES.push(createFlareSolverrStrategy({ endpoint: process.env.FLARESOLVERR_URL }));
+}
+
+/**
+ * Nayi strategy register karo. `before` diya ho toh us strategy se pehle,
+ * warna chain ke end mein. Same name wali strategy replace ho jati hai.
+ */
+export function registerFetchStrategy(strategy: FetchStrategy, options: { before?: string } = {}): void {
+  const existing = FETCH_STRATEGIES.findIndex((s) => s.name === strategy.name);
+  if (existing !== -1) FETCH_STRATEGIES.splice(existing, 1);
+
+  const beforeIdx = options.before ? FETCH_STRATEGIES.findIndex((s) => s.name === options.before) : -1;
+  if (beforeIdx === -1) FETCH_STRATEGIES.push(strategy);
+  else FETCH_STRATEGIES.splice(beforeIdx, 0, strategy);
+}
+
+/** Configured order (FETCH_STRATEGIES env, e.g. "flaresolverr,proxy,direct") */
+function configuredChain(): FetchStrategy[] {
+  const order = (process.env.FETCH_STRATEGIES || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (order.length === 0) return [...FETCH_STRATEGIES];
+
+  return order
+    .map((name) => FETCH_STRATEGIES.find((s) => s.name === name))
+    .filter((s): s is FetchStrategy => !!s);
+}
+
+/** Is URL ke liye try order — domain pe last-known-good strategy sabse pehle */
+export function getFetchChain(url: string): FetchStrategy[] {
+  const chain = configuredChain();
+  const preferred = getState().preferred.get(hostnameOf(url));
+  const idx = preferred ? chain.findIndex((s) => s.name === preferred) : -1;
+  if (idx > 0) chain.unshift(...chain.splice(idx, 1));
+  return chain;
+}
+
+// =============================================================================
+// CHAIN RUNNER — WITH SMART TIMEOUT + RETRY POLICY
+// =============================================================================
+
+async function runStrategy(strategy: FetchStrategy, url: string, budget?: GlobalTimeoutBudget) {
+  const hostname = hostnameOf(url);
+  const cookies = strategy.useCookieJar ? jarCookies(strategy.name, hostname) : {};
+  const cookieHeader = Object.entries(cookies).map(([k, v]) => `${k}=${v}`).join('; ');
+  const headers = { ...strategy.headers, ...(cookieHeader ? { Cookie: cookieHeader } : {}) };
+
+  const detect = (res: StrategyResponse) => {
+    if (strategy.detection.blockedStatuses.includes(res.status)) {
+      throw new SolverFailureError('blocked', `${strategy.label}: blocked with HTTP ${res.status}`, res.status);
+    }
+    if (strategy.detection.challengeMarkers.some((m) => res.html.includes(m))) {
+      throw new SolverFailureError('blocked', `${strategy.label}: Cloudflare challenge page received`, res.status);
+    }
+    if (res.status >= 400) {
+      throw new SolverFailureError(kindForHttpStatus(res.status), `${strategy.label}: HTTP ${res.status}`, res.status);
+    }
+  };
+
+  const call = () =>
+    trackLatency(strategy.timeoutApi, () =>
+      strategy.request(url, { headers, cookies, timeoutMs: adaptiveTimeout(strategy.timeoutApi), budget })
+    );
+
+  // Host-scoped: block / 5xx bhi host ka failure count. Backend-scoped: service chali,
+  // site ne roka — service ki galti nahi, isliye detect circuit ke bahar
+  const res = strategy.circuit.scope === 'host'
+    ? await withCircuit(hostKey(url), async () => {
+        const r = await call();
+        if (r.status >= 500 || strategy.detection.blockedStatuses.includes(r.status)) detect(r);
+        return r;
+      })
+    : await withCircuit(strategy.circuit.key, call);
+
+  if (strategy.useCookieJar && res.cookies) storeCookies(strategy.name, hostname, res.cookies);
+  detect(res);
+  return res;
+}
+
+/**
+ * Chain chalao jab tak koi strategy asli HTML na de.
+ * Har strategy pe RETRY_POLICIES.pageFetch: timeout / 5xx → backoff retry,
+ * block → seedha agli strategy. Jo chali wo domain ke liye yaad rehti hai.
+ */
+export async function fetchWithStrategies(
+  url: string,
+  budget?: GlobalTimeoutBudget
+): Promise<{ html: string; finalUrl: string; via: string }> {
+  const hostname = hostnameOf(url);
+  const state = getState();
+  let lastError: SolverError | null = null;
+
+  for (const strategy of getFetchChain(url)) {
+    if (budget?.isExpired) {
+      throw new SolverFailureError('budget_expired', `⏱️ Budget expired before ${strategy.name} fetch attempt`);
+    }
+
+    console.log(`[Fetcher] 🔄 Trying ${strategy.name} for: ${url} ${budget?.getStatus() || ''}`);
+
+    const attempt = await withRetry(
+      async () => {
+        try {
+          return { ok: true as const, page: await runStrategy(strategy, url, budget) };
+        } catch (e: any) {
+          return {
+            ok: false as const,
+            error: classifySolverError(e, { budget, backend: strategy.circuit.scope === 'backend' }),
+          };
+        }
+      },
+      {
+        policy: RETRY_POLICIES.pageFetch,
+        classify: (r) => (r.ok ? null : r.error),
+        remainingMs: () => budget?.remaining ?? Infinity,
+        onRetry: ({ attempt: n, delayMs, error }) =>
+          console.warn(`[Fetcher] 🔁 ${strategy.name} attempt ${n} failed (${error.kind}) — retrying in ${delayMs}ms`),
+      }
+    );
+
+    if (attempt.ok) {
+      console.log(`[Fetcher] ✅ ${strategy.name} success for: ${url} (${attempt.page.html.length} chars)`);
+      state.preferred.set(hostname, strategy.name);
+      return { html: attempt.page.html, finalUrl: attempt.page.finalUrl, via: strategy.name };
+    }
+
+    lastError = attempt.error;
+    console.warn(`[Fetcher] ⚠️ ${strategy.name} failed (${lastError.kind}): ${lastError.message}`);
+    if (state.preferred.get(hostname) === strategy.name) state.preferred.delete(hostname);
+    if (lastError.kind === 'budget_expired') break;
+  }
+
+  if (!lastError) throw new SolverFailureError('unknown', 'No fetch strategies configured');
+  throw new SolverFailureError(lastError.kind, lastError.message, lastError.httpStatus);
+}
+
+export interface FetchStrategyStatus {
+  chain: { name: string; label: string; circuit: string }[];
+  preferred: Record<string, string>;
+}
+
+export function getFetchStrategyStatus(): FetchStrategyStatus {
+  return {
+    chain: configuredChain().map((s) => ({
+      name: s.name,
+      label: s.label,
+      circuit: s.circuit.scope === 'host' ? 'per-host' : s.circuit.key,
+    })),
+    preferred: Object.fromEntries(getState().preferred),
+  };
+}
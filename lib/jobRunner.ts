@@ -0,0 +1,296 @@
+import os from 'os';
+import { processQueueItem, type QueueItemInput } from './queueProcessor';
+import { processTaskLink, type TaskLinkInput } from './taskProcessor';
+import { getScheduler, resolutionPriority } from './scheduler';
+import { publish, queueChannel, resetChannel, taskChannel } from './progressBus';
+import { GlobalTimeoutBudget } from './timeout';
+import { LINK_MACHINE, QUEUE_MACHINE, applyTransition } from './stateMachine';
+import { QUEUE_COLLECTIONS, getStorage, type QueueCollection } from './storage';
+import { claimOpenLinks, findOpenTaskIds, releaseLinks } from './taskStore';
+
+// =============================================================================
+// 🛰️ DURABLE JOB RUNNER — Server-side worker with leases
+// =============================================================================
+// Pehle processing sirf tab hoti thi jab browser NDJSON stream khula rakhe.
+// Ab worker khud `scraping_tasks` ke pending links aur `movies_queue` /
+// `webseries_queue` ke items claim karta hai (lease ke saath) aur process karta hai.
+// - Lease: claim karte waqt `leaseOwner` + `leaseExpiresAt` set hota hai
+// - Worker crash ho jaye toh lease expire → doosra worker reclaim kar leta hai
+// - Clients sirf progress bus subscribe karte hain
+// =============================================================================
+
+const WORKER_ID = `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+const LEASE_MS = 90_000;           // 55s budget + DB writes + buffer
+const JOB_BUDGET_MS = 55_000;      // Same safe limit as the old routes
+const IDLE_POLL_MS = 5_000;
+const MAX_IDLE_POLLS = 12;         // ~1 min idle → loop so jata hai (next kick pe jaagega)
+
+interface WorkerState {
+  loops: { queue: boolean; tasks: boolean };
+  hints: { tasks: string[]; queue: { collection: QueueCollection; id: string }[] };
+  lastCycleAt: string | null;
+  stats: { queueItems: number; taskLinks: number; errors: number };
+}
+
+const globalForWorker = globalThis as typeof globalThis & { __mflixWorker?: WorkerState };
+
+function getState(): WorkerState {
+  if (!globalForWorker.__mflixWorker) {
+    globalForWorker.__mflixWorker = {
+      loops: { queue: false, tasks: false },
+      hints: { tasks: [], queue: [] },
+      lastCycleAt: null,
+      stats: { queueItems: 0, taskLinks: 0, errors: 0 },
+    };
+  }
+  return globalForWorker.__mflixWorker;
+}
+
+const isPersistent = () => process.env.WORKER_AUTOSTART === 'true';
+
+function leaseExpired(entry: { leaseExpiresAt?: string | null }): boolean {
+  if (!entry.leaseExpiresAt) return true;
+  return new Date(entry.leaseExpiresAt).getTime() <= Date.now();
+}
+
+function newLease() {
+  return {
+    leaseOwner: WORKER_ID,
+    leaseExpiresAt: new Date(Date.now() + LEASE_MS).toISOString(),
+  };
+}
+
+/** Pending link, ya processing jiski lease expire ho chuki (crashed worker) */
+function isLinkClaimable(l: any): boolean {
+  const s = LINK_MACHINE.normalize(l.status);
+  return s === 'pending' || (s === 'processing' && leaseExpired(l));
+}
+
+function queueTypeFor(collection: QueueCollection): string {
+  return collection === 'webseries_queue' ? 'webseries' : 'movie';
+}
+
+// =============================================================================
+// CLAIMING (storage transactions)
+// =============================================================================
+
+/**
+ * Task ke saare claimable links (pending, ya expired lease wale processing) claim karo.
+ */
+async function claimTaskLinks(taskId: string): Promise<TaskLinkInput[]> {
+  const claimed = await claimOpenLinks(taskId, isLinkClaimable, (l) => {
+    const reason = l.status === 'processing' ? `lease expired, reclaimed by ${WORKER_ID}` : `claimed by ${WORKER_ID}`;
+    return { ...applyTransition(LINK_MACHINE, l, 'processing', reason), ...newLease() };
+  });
+  return claimed.map((l) => ({ id: l.index, name: l.name, link: l.link }));
+}
+
+/** Claimed but never started links ko wapas pending karo (lease clear) */
+async function releaseTaskLinks(taskId: string, linkIds: number[]): Promise<void> {
+  await releaseLinks(taskId, linkIds, (l) =>
+    l.leaseOwner === WORKER_ID
+      ? { ...applyTransition(LINK_MACHINE, l, 'pending', 'released unstarted'), leaseOwner: null, leaseExpiresAt: null }
+      : null
+  );
+}
+
+async function claimQueueItem(collection: QueueCollection, id: string): Promise<QueueItemInput | null> {
+  return getStorage().queue.mutate(collection, id, (data) => {
+    if (!data) return { result: null };
+
+    const status = QUEUE_MACHINE.normalize(data.status);
+    const claimable = status === 'pending' || (status === 'processing' && leaseExpired(data));
+    if (!claimable || !data.url) return { result: null };
+
+    const reason = status === 'processing' ? `lease expired, reclaimed by ${WORKER_ID}` : `claimed by ${WORKER_ID}`;
+    return {
+      patch: {
+        ...applyTransition(QUEUE_MACHINE, data, 'processing', reason),
+        ...newLease(),
+        updatedAt: new Date().toISOString(),
+      },
+      result: {
+        id,
+        collection,
+        url: data.url,
+        title: data.title || 'Unknown',
+        type: data.type || queueTypeFor(collection),
+      },
+    };
+  });
+}
+
+async function findNextQueueItem(): Promise<QueueItemInput | null> {
+  const state = getState();
+
+  // Pehle wo items jo kisi client ne explicitly maange hain
+  while (state.hints.queue.length > 0) {
+    const hint = state.hints.queue.shift()!;
+    const claimed = await claimQueueItem(hint.collection, hint.id);
+    if (claimed) return claimed;
+  }
+
+  const { queue } = getStorage();
+  for (const collection of QUEUE_COLLECTIONS) {
+    const pending = await queue.listByStatus(collection, 'pending', 5);
+
+    for (const doc of pending) {
+      const claimed = await claimQueueItem(collection, doc.id);
+      if (claimed) return claimed;
+    }
+
+    // Crashed worker ke items (lease expire ho chuki)
+    const stale = await queue.listByStatus(collection, 'processing', 20);
+    for (const doc of stale) {
+      if (!leaseExpired(doc.data)) continue;
+      const claimed = await claimQueueItem(collection, doc.id);
+      if (claimed) return claimed;
+    }
+  }
+
+  return null;
+}
+
+async function findNextTaskBatch(): Promise<{ taskId: string; links: TaskLinkInput[] } | null> {
+  const state = getState();
+
+  while (state.hints.tasks.length > 0) {
+    const taskId = state.hints.tasks.shift()!;
+    const links = await claimTaskLinks(taskId);
+    if (links.length > 0) return { taskId, links };
+  }
+
+  // Open links (pending + processing) — live lease wale claimTaskLinks khud chhod deta hai
+  for (const taskId of await findOpenTaskIds(20)) {
+    const links = await claimTaskLinks(taskId);
+    if (links.length > 0) return { taskId, links };
+  }
+
+  return null;
+}
+
+// =============================================================================
+// SLOTS — ek unit of work
+// =============================================================================
+
+async function runQueueSlot(): Promise<boolean> {
+  const state = getState();
+  const item = await findNextQueueItem();
+  if (!item) return false;
+
+  const channel = queueChannel(item.collection, item.id);
+  resetChannel(channel);
+  console.log(`[Worker ${WORKER_ID}] 📦 Claimed queue item ${item.collection}/${item.id}`);
+
+  await processQueueItem(item, {
+    budget: new GlobalTimeoutBudget(JOB_BUDGET_MS),
+    emit: (event) => publish(channel, event),
+  });
+
+  state.stats.queueItems++;
+  state.lastCycleAt = new Date().toISOString();
+  return true;
+}
+
+async function runTaskSlot(): Promise<boolean> {
+  const state = getState();
+  const batch = await findNextTaskBatch();
+  if (!batch) return false;
+
+  const channel = taskChannel(batch.taskId);
+  const budget = new GlobalTimeoutBudget(JOB_BUDGET_MS);
+  console.log(`[Worker ${WORKER_ID}] 🔗 Claimed ${batch.links.length} links of task ${batch.taskId}`);
+
+  // 🚦 Shared scheduler — pehle yahan Promise.all tha (20 links = 20 parallel hits)
+  const scheduler = getScheduler();
+  let unstarted = batch.links.length;
+
+  const outcomes = await scheduler.runAll(
+    batch.links.map((link) => ({
+      id: link.id,
+      url: link.link,
+      priority: resolutionPriority(link.name),
+      run: () => {
+        // ⚖️ Fair share — ek slow link baaki links ka time na kha jaye
+        const linkBudget = budget.shareFor(unstarted, scheduler.globalConcurrency);
+        unstarted--;
+        return processTaskLink(batch.taskId, link, { budget: linkBudget, emit: (event) => publish(channel, event) });
+      },
+    })),
+    { budget }
+  );
+
+  // Budget khatam hone tak start nahi hue → lease chhodo, next cycle uthayegi
+  const skippedIds = outcomes.filter((o) => o.status === 'skipped').map((o) => o.id);
+  if (skippedIds.length > 0) await releaseTaskLinks(batch.taskId, skippedIds);
+
+  state.stats.taskLinks += batch.links.length - skippedIds.length;
+  state.lastCycleAt = new Date().toISOString();
+  return true;
+}
+
+// =============================================================================
+// LOOPS
+// =============================================================================
+
+async function runLoop(kind: 'queue' | 'tasks', slot: () => Promise<boolean>): Promise<void> {
+  const state = getState();
+  if (state.loops[kind]) return;
+  state.loops[kind] = true;
+
+  let idlePolls = 0;
+  try {
+    while (isPersistent() || idlePolls < MAX_IDLE_POLLS) {
+      let didWork = false;
+      try {
+        didWork = await slot();
+      } catch (e: any) {
+        state.stats.errors++;
+        console.error(`[Worker ${WORKER_ID}] ❌ ${kind} slot error:`, e.message);
+      }
+
+      if (didWork) {
+        idlePolls = 0;
+      } else {
+        idlePolls++;
+        await new Promise((r) => setTimeout(r, IDLE_POLL_MS));
+      }
+    }
+  } finally {
+    state.loops[kind] = false;
+  }
+}
+
+/**
+ * Worker ko jagao (agar so raha hai) aur optional hint do ki kaunsa
+ * task / queue item pehle uthana hai. Non-blocking.
+ */
+export function kickWorker(hint: { taskId?: string; queueItem?: { collection: QueueCollection; id: string } } = {}): void {
+  const state = getState();
+  if (hint.taskId && !state.hints.tasks.includes(hint.taskId)) state.hints.tasks.push(hint.taskId);
+  if (hint.queueItem) state.hints.queue.push(hint.queueItem);
+
+  runLoop('queue', runQueueSlot).catch(() => {});
+  runLoop('tasks', runTaskSlot).catch(() => {});
+}
+
+/**
+ * Ek synchronous cycle — serverless / cron ke liye jahan background loop nahi chal sakta.
+ */
+export async function runWorkerCycle(): Promise<{ queueItem: boolean; taskBatch: boolean }> {
+  const [queueItem, taskBatch] = await Promise.all([runQueueSlot(), runTaskSlot()]);
+  return { queueItem, taskBatch };
+}
+
+export function getWorkerStatus() {
+  const state = getState();
+  return {
+    workerId: WORKER_ID,
+    persistent: isPersistent(),
+    running: state.loops.queue || state.loops.tasks,
+    loops: { ...state.loops },
+    lastCycleAt: state.lastCycleAt,
+    stats: { ...state.stats },
+    scheduler: getScheduler().getStats(),
+  };
+}
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { resolveLink, type LogType, type ResolveResult } from './solverRegistry';
+import type { HubCloudButton } from './solvers';
+import { GlobalTimeoutBudget, safeFetch } from './timeout';
+import { LINK_MACHINE, applyTransition, type LinkStatus, type StatusTransition } from './stateMachine';
+import { getStorage } from './storage';
+
+// =============================================================================
+// ♻️ RESOLVED-LINK CACHE — Same hblinks / hubdrive / hubcloud URL dobara solve mat karo
+// =============================================================================
+// Key = original link. Value = final link + button + solver chain + solvedAt.
+// Reuse se pehle halka sa check (HEAD, ya Range: bytes=0-0) ki final link
+// abhi bhi zinda hai. Dead link → cache entry delete, normal resolve.
+// =============================================================================
+
+const VERIFY_TIMEOUT_MS = 5_000;
+const VERIFY_FRESH_MS = 10 * 60_000;         // Itne time ke andar verified → dobara check nahi
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60_000; // Isse purani entry reuse nahi hoti
+
+export interface CachedLink {
+  originalLink: string;
+  finalLink: string;
+  buttonName: string | null;
+  allButtons: HubCloudButton[];
+  solverChain: string[];
+  solvedAt: string;
+  verifiedAt: string | null;
+  hits: number;
+}
+
+export function cacheKey(originalLink: string): string {
+  return crypto.createHash('sha1').update(originalLink.trim()).digest('hex');
+}
+
+/**
+ * Final link abhi bhi kaam karta hai? HEAD try karo; HEAD allowed nahi
+ * (405 / 403 / 501) toh 1-byte range GET. 2xx / 3xx / 206 = alive.
+ */
+export async function verifyFinalLink(finalLink: string): Promise<boolean> {
+  try {
+    const head = await safeFetch(finalLink, { method: 'HEAD', redirect: 'follow', timeoutMs: VERIFY_TIMEOUT_MS });
+    if (head.status < 400) return true;
+    if (head.status === 404 || head.status === 410) return false;
+  } catch {
+    // Kuch servers HEAD pe connection hi kaat dete hain → range GET try karo
+  }
+
+  try {
+    const ranged = await safeFetch(finalLink, {
+      method: 'GET',
+      redirect: 'follow',
+      headers: { Range: 'bytes=0-0' },
+      timeoutMs: VERIFY_TIMEOUT_MS,
+    });
+    ranged.body?.cancel().catch(() => {});
+    return ranged.status < 400;
+  } catch {
+    return false;
+  }
+}
+
+export async function getCachedLink(originalLink: string): Promise<CachedLink | null> {
+  const entry = (await getStorage().linkCache.get(cacheKey(originalLink))) as CachedLink | null;
+  if (!entry?.finalLink) return null;
+  if (Date.now() - new Date(entry.solvedAt).getTime() > CACHE_MAX_AGE_MS) return null;
+  return entry;
+}
+
+export async function saveCachedLink(originalLink: string, result: ResolveResult): Promise<void> {
+  if (result.status !== 'done' || !result.finalLink) return;
+
+  const now = new Date().toISOString();
+  const entry: CachedLink = {
+    originalLink,
+    finalLink: result.finalLink,
+    buttonName: result.buttonName || null,
+    allButtons: result.allButtons || [],
+    solverChain: result.trace.filter((h) => h.status !== 'skipped').map((h) => h.solver),
+    solvedAt: now,
+    verifiedAt: now,
+    hits: 0,
+  };
+  await getStorage().linkCache.set(cacheKey(originalLink), entry);
+}
+
+export async function invalidateCachedLink(originalLink: string): Promise<void> {
+  await getStorage().linkCache.delete(cacheKey(originalLink));
+}
+
+/**
+ * Cache se verified final link lo. Miss / dead / budget kam → null.
+ * Dead link ki entry turant delete ho jaati hai.
+ */
+export async function lookupVerified(
+  originalLink: string,
+  budget?: GlobalTimeoutBudget
+): Promise<CachedLink | null> {
+  try {
+    const entry = await getCachedLink(originalLink);
+    if (!entry) return null;
+
+    const recentlyVerified =
+      entry.verifiedAt && Date.now() - new Date(entry.verifiedAt).getTime() < VERIFY_FRESH_MS;
+
+    if (!recentlyVerified) {
+      if (budget && budget.remaining < VERIFY_TIMEOUT_MS) return null;
+      const alive = await verifyFinalLink(entry.finalLink);
+      if (!alive) {
+        await invalidateCachedLink(originalLink);
+        return null;
+      }
+    }
+
+    const verifiedAt = recentlyVerified ? entry.verifiedAt : new Date().toISOString();
+    await getStorage().linkCache.update(cacheKey(originalLink), {
+      verifiedAt,
+      hits: (entry.hits || 0) + 1,
+    });
+    return { ...entry, verifiedAt, hits: (entry.hits || 0) + 1 };
+  } catch (e: any) {
+    // Cache kabhi resolution ko fail na kare
+    console.warn(`[LinkCache] ⚠️ Lookup failed for ${originalLink}: ${e.message}`);
+    return null;
+  }
+}
+
+/**
+ * resolveLink() ka cache-aware version. Hit → ek 'cache' hop ka trace,
+ * miss → normal resolution, success pe cache update.
+ */
+export async function resolveLinkCached(
+  originalLink: string,
+  options: {
+    budget: GlobalTimeoutBudget;
+    onLog?: (msg: string, type: LogType) => void;
+  }
+): Promise<ResolveResult> {
+  const log = options.onLog || (() => {});
+  const startedAt = Date.now();
+
+  const cached = await lookupVerified(originalLink, options.budget);
+  if (cached) {
+    log(`♻️ Cache hit (solved ${cached.solvedAt.slice(0, 10)} via ${cached.solverChain.join(' → ')})`, 'success');
+    return {
+      status: 'done',
+      finalLink: cached.finalLink,
+      buttonName: cached.buttonName || undefined,
+      allButtons: cached.allButtons,
+      fromCache: true,
+      trace: [{
+        solver: 'cache',
+        input: originalLink,
+        output: cached.finalLink,
+        status: 'final',
+        httpStatus: null,
+        durationMs: Date.now() - startedAt,
+        budgetRemainingMs: options.budget.remaining,
+        at: new Date().toISOString(),
+      }],
+    };
+  }
+
+  const result = await resolveLink(originalLink, options);
+  if (result.status === 'done') {
+    saveCachedLink(originalLink, result).catch((e: any) =>
+      console.warn(`[LinkCache] ⚠️ Save failed: ${e.message}`)
+    );
+  }
+  return result;
+}
+
+/**
+ * Naye / retry links ko cache se pre-fill karo (POST /api/tasks merge + create).
+ * Hit wale links seedha 'done' ban jaate hain — worker ko kuch karna hi nahi.
+ */
+export async function prefillFromCache<T extends { link?: string; status?: string; statusHistory?: StatusTransition<LinkStatus>[] }>(
+  links: T[],
+  budget: GlobalTimeoutBudget
+): Promise<{ links: T[]; hits: number }> {
+  let hits = 0;
+
+  const filled = await Promise.all(
+    links.map(async (l) => {
+      if (LINK_MACHINE.normalize(l.status) !== 'pending' || !l.link) return l;
+      const cached = await lookupVerified(l.link, budget);
+      if (!cached) return l;
+
+      hits++;
+      return {
+        ...l,
+        ...applyTransition(LINK_MACHINE, l, 'done', 'served from link cache'),
+        finalLink: cached.finalLink,
+        best_button_name: cached.buttonName,
+        all_available_buttons: cached.allButtons,
+        logs: [{ msg: `♻️ Served from cache (solved ${cached.solvedAt.slice(0, 10)})`, type: 'success' }],
+      };
+    })
+  );
+
+  return { links: filled, hits };
+}
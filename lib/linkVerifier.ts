@@ -0,0 +1,272 @@
+import { invalidateCachedLink, saveCachedLink, verifyFinalLink } from './linkCache';
+import { buildSavedSeasons } from './queueProcessor';
+import { resolveLink } from './solverRegistry';
+import { GlobalTimeoutBudget } from './timeout';
+import { SAVED_COLLECTIONS, getStorage, type SavedCollection } from './storage';
+
+// =============================================================================
+// 🩺 LINK LIVENESS RE-VERIFICATION — Saved movies / webseries ke CDN links
+// =============================================================================
+// auto-process `downloadLinks` save karke bhool jata tha, CDN links expire
+// ho jaate hain. Ye job:
+// 1. Har saved `downloadLinks[].link` ko check karta hai (HEAD / range GET)
+// 2. Dead link → `allLinks[].originalLink` se solver chain dobara chalata hai
+// 3. Phir bhi na mile → link `dead` mark hota hai
+// 4. Doc pe `lastVerifiedAt` + `linkHealth` counters update
+//    (webseries: `seasons` tree bhi naye final links se dobara banta hai)
+// Route (POST /api/verify-links) ya schedule (WORKER_AUTOSTART) se chalta hai.
+// =============================================================================
+
+export const VERIFY_COLLECTIONS = SAVED_COLLECTIONS;
+
+const VERIFY_INTERVAL_MS = 12 * 60 * 60_000;   // Ek doc ko 12h mein ek baar check karo
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_SCHEDULE_MIN = 360;              // LINK_VERIFY_INTERVAL_MIN default (6h)
+
+export interface LinkHealth {
+  checks: number;
+  alive: number;
+  dead: number;
+  reResolved: number;
+  lastRunAlive: number;
+  lastRunDead: number;
+  lastDeadAt: string | null;
+}
+
+export interface VerifyDocResult {
+  collection: string;
+  id: string;
+  title: string;
+  checked: number;
+  alive: number;
+  reResolved: number;
+  dead: number;
+}
+
+export interface VerifyRunSummary {
+  startedAt: string;
+  finishedAt: string;
+  docs: VerifyDocResult[];
+  budgetExpired: boolean;
+}
+
+interface VerifierState {
+  legacyCursor: Record<string, string | null>;
+  lastRun: VerifyRunSummary | null;
+  running: boolean;
+  scheduled: boolean;
+}
+
+const globalForVerifier = globalThis as typeof globalThis & { __mflixVerifier?: VerifierState };
+
+function getState(): VerifierState {
+  if (!globalForVerifier.__mflixVerifier) {
+    globalForVerifier.__mflixVerifier = {
+      legacyCursor: {},
+      lastRun: null,
+      running: false,
+      scheduled: false,
+    };
+  }
+  return globalForVerifier.__mflixVerifier;
+}
+
+function emptyHealth(): LinkHealth {
+  return { checks: 0, alive: 0, dead: 0, reResolved: 0, lastRunAlive: 0, lastRunDead: 0, lastDeadAt: null };
+}
+
+/**
+ * Ek saved doc ke saare download links verify + heal karo.
+ */
+export async function verifySavedDoc(
+  collection: SavedCollection,
+  docId: string,
+  budget: GlobalTimeoutBudget
+): Promise<VerifyDocResult | null> {
+  const { saved } = getStorage();
+  const doc = await saved.get(collection, docId);
+  if (!doc) return null;
+
+  const data = doc.data;
+  const downloadLinks: any[] = data.downloadLinks || [];
+  const allLinks: any[] = data.allLinks || [];
+  const result: VerifyDocResult = {
+    collection, id: docId, title: data.title || 'Unknown', checked: 0, alive: 0, reResolved: 0, dead: 0,
+  };
+
+  const updatedDownloadLinks = [...downloadLinks];
+  const updatedAllLinks = [...allLinks];
+
+  for (let i = 0; i < downloadLinks.length; i++) {
+    if (budget.isExpired) break;
+    const dl = downloadLinks[i];
+    if (!dl?.link) continue;
+
+    result.checked++;
+    if (await verifyFinalLink(dl.link)) {
+      result.alive++;
+      updatedDownloadLinks[i] = { ...dl, status: 'alive', deadSince: null };
+      continue;
+    }
+
+    // 💀 Dead → original link se solver chain dobara
+    const sourceIdx = allLinks.findIndex(
+      (l: any) => l.finalLink === dl.link || (l.name === dl.name && l.originalLink)
+    );
+    const source = sourceIdx >= 0 ? allLinks[sourceIdx] : null;
+
+    if (source?.originalLink && !budget.isExpired) {
+      await invalidateCachedLink(source.originalLink).catch(() => {});
+      const resolved = await resolveLink(source.originalLink, { budget });
+
+      if (resolved.status === 'done' && resolved.finalLink) {
+        console.log(`[LinkVerifier] ♻️ Re-resolved "${dl.name}" for ${collection}/${docId}`);
+        result.reResolved++;
+        updatedDownloadLinks[i] = {
+          ...dl,
+          link: resolved.finalLink,
+          buttonName: resolved.buttonName || dl.buttonName || null,
+          status: 'alive',
+          deadSince: null,
+          reResolvedAt: new Date().toISOString(),
+        };
+        updatedAllLinks[sourceIdx] = {
+          ...source,
+          finalLink: resolved.finalLink,
+          buttonName: resolved.buttonName || source.buttonName || null,
+          status: 'done',
+          error: null,
+          trace: resolved.trace,
+        };
+        saveCachedLink(source.originalLink, resolved).catch(() => {});
+        continue;
+      }
+    }
+
+    result.dead++;
+    updatedDownloadLinks[i] = { ...dl, status: 'dead', deadSince: dl.deadSince || new Date().toISOString() };
+  }
+
+  const now = new Date().toISOString();
+  const prev: LinkHealth = { ...emptyHealth(), ...(data.linkHealth || {}) };
+  const linkHealth: LinkHealth = {
+    checks: prev.checks + result.checked,
+    alive: prev.alive + result.alive,
+    dead: prev.dead + result.dead,
+    reResolved: prev.reResolved + result.reResolved,
+    lastRunAlive: result.alive + result.reResolved,
+    lastRunDead: result.dead,
+    lastDeadAt: result.dead > 0 ? now : prev.lastDeadAt,
+  };
+
+  await saved.update(collection, docId, {
+    downloadLinks: updatedDownloadLinks,
+    allLinks: updatedAllLinks,
+    // 📺 Series UI `seasons` se links dikhata hai — wahan bhi purane dead CDN links na rahein
+    ...(data.seasons && result.reResolved > 0 ? { seasons: buildSavedSeasons(updatedAllLinks) } : {}),
+    linkHealth,
+    // Budget beech mein khatam → doc stale hi rahe taaki next run pura check kare
+    ...(result.checked === downloadLinks.filter((l: any) => l?.link).length ? { lastVerifiedAt: now } : {}),
+    updatedAt: now,
+  });
+
+  return result;
+}
+
+/**
+ * Sabse purane verified docs (aur kabhi verify na hue legacy docs) dhoondo.
+ */
+async function findStaleDocs(collection: SavedCollection, limit: number): Promise<string[]> {
+  const cutoff = new Date(Date.now() - VERIFY_INTERVAL_MS).toISOString();
+  const { saved } = getStorage();
+
+  const stale = await saved.findVerifiedBefore(collection, cutoff, limit);
+  const ids = stale.map((d) => d.id);
+  if (ids.length >= limit) return ids;
+
+  // Legacy docs (lastVerifiedAt field hi nahi) — cursor se scan
+  const state = getState();
+  const page = await saved.listPage(collection, limit * 2, state.legacyCursor[collection] ?? null);
+  state.legacyCursor[collection] = page.length > 0 ? page[page.length - 1].id : null;
+
+  for (const d of page) {
+    const docData = d.data;
+    if (!docData.lastVerifiedAt && (docData.downloadLinks || []).length > 0 && ids.length < limit) {
+      ids.push(d.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Ek verification run — budget tak jitne stale docs ho sakein.
+ */
+export async function runLinkVerification(options: {
+  budget?: GlobalTimeoutBudget;
+  limit?: number;
+  collection?: SavedCollection;
+  docId?: string;
+} = {}): Promise<VerifyRunSummary> {
+  const state = getState();
+  const budget = options.budget || new GlobalTimeoutBudget();
+  const limit = options.limit || DEFAULT_BATCH_SIZE;
+  const startedAt = new Date().toISOString();
+  const docs: VerifyDocResult[] = [];
+
+  state.running = true;
+  try {
+    const targets: { collection: SavedCollection; id: string }[] = [];
+
+    if (options.docId && options.collection) {
+      targets.push({ collection: options.collection, id: options.docId });
+    } else {
+      const collections = options.collection ? [options.collection] : [...VERIFY_COLLECTIONS];
+      for (const col of collections) {
+        const ids = await findStaleDocs(col, limit);
+        targets.push(...ids.map((id) => ({ collection: col, id })));
+      }
+    }
+
+    for (const target of targets) {
+      if (budget.isExpired) break;
+      try {
+        const r = await verifySavedDoc(target.collection, target.id, budget);
+        if (r) docs.push(r);
+      } catch (e: any) {
+        console.error(`[LinkVerifier] ❌ ${target.collection}/${target.id}: ${e.message}`);
+      }
+    }
+  } finally {
+    state.running = false;
+  }
+
+  const summary: VerifyRunSummary = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    docs,
+    budgetExpired: budget.isExpired,
+  };
+  state.lastRun = summary;
+  return summary;
+}
+
+export function getVerifierStatus() {
+  const state = getState();
+  return { running: state.running, scheduled: state.scheduled, lastRun: state.lastRun };
+}
+
+/**
+ * Self-hosted mode: har LINK_VERIFY_INTERVAL_MIN minute pe ek run.
+ * Serverless pe cron se POST /api/verify-links call karo.
+ */
+export function scheduleLinkVerification(): void {
+  const state = getState();
+  if (state.scheduled) return;
+  state.scheduled = true;
+
+  const minutes = parseInt(process.env.LINK_VERIFY_INTERVAL_MIN || '', 10) || DEFAULT_SCHEDULE_MIN;
+  setInterval(() => {
+    if (getState().running) return;
+    runLinkVerification().catch((e: any) => console.error('[LinkVerifier] ❌ Scheduled run failed:', e.message));
+  }, minutes * 60_000);
+}
@@ -0,0 +1,365 @@
+import http from 'http';
+import fs from 'fs';
+import { SOLVER_BACKENDS } from '../circuitBreaker';
+
+// =============================================================================
+// 🧪 MOCK SOLVER BACKENDS — Python services ke TypeScript stand-ins
+// =============================================================================
+// Teen local HTTP contracts jinpe TS code depend karta hai:
+// - Proxy      GET /fetch?url=  → { status, html, status_code, url, content_length }
+// - HubCloud   GET /solve?url=  → { status, best_button_name, best_download_link, all_available_buttons }
+// - Timer      GET /solve?url=  → { status, extracted_link }
+// - FlareSolverr POST /v1 { cmd, url } → { status: 'ok', solution } (FLARESOLVERR_URL set ho toh)
+// Proxy mock GET /page/<anything> pe raw movie HTML bhi deta hai — direct fetch
+// strategy ko isi pe point karke test karo. ALT_PROXY_URL set → doosra proxy mock.
+// MOCK_BACKENDS=true (non-production) pe server boot ke saath start hote hain;
+// tests (resolveLink, jobRunner) inhe khud start / stop karte hain.
+// Scripted responses, latency aur failure injection — bina Python / network ke
+// stream_solve aur auto-process end-to-end chalao (timeout / budget paths bhi).
+//
+// Control API (har mock pe):
+//   GET    /__mock  → current config + recent requests
+//   POST   /__mock  → config merge ({ latencyMs, failureRate, failureMode, rules })
+//   DELETE /__mock  → defaults pe reset
+// =============================================================================
+
+export type MockBackendKind = 'proxy' | 'hubcloud' | 'timer' | 'flaresolverr';
+
+export type MockFailureMode = 'http500' | 'hang' | 'reset' | 'fail-status';
+
+export interface MockRule {
+  /** Target `url` query param mein ye substring ho toh rule lagega (khaali = sab) */
+  match?: string;
+  /** Is rule ke liye response body (default contract body ko override / merge) */
+  body?: Record<string, any>;
+  /** HTTP status (default 200) */
+  httpStatus?: number;
+  latencyMs?: number;
+  fail?: MockFailureMode;
+  /** Kitni baar lagega — phir rule hat jata hai (default: hamesha) */
+  times?: number;
+}
+
+export interface MockBackendConfig {
+  latencyMs: number;
+  jitterMs: number;
+  /** 0..1 — random failures */
+  failureRate: number;
+  failureMode: MockFailureMode;
+  rules: MockRule[];
+}
+
+interface MockRequestLog {
+  at: string;
+  path: string;
+  target: string | null;
+  outcome: string;
+  /** Request ka Cookie header — strategy cookie jar replay check karne ke liye */
+  cookie: string | null;
+}
+
+const DEFAULT_CONFIG: MockBackendConfig = {
+  latencyMs: 50,
+  jitterMs: 0,
+  failureRate: 0,
+  failureMode: 'http500',
+  rules: [],
+};
+
+const MAX_REQUEST_LOG = 100;
+
+/** Default mock movie page — links seedha mock HubCloud API tak jaate hain */
+function defaultMoviePage(url: string): string {
+  // URL ka aakhri hissa — har page ke apne links (shared prefix "https://..." nahi)
+  const id = Buffer.from(url).toString('base64url').slice(-12);
+  return `<!doctype html><html><head><title>Mock Movie (2024) - HDHub</title>
+<meta property="og:image" content="https://mock.invalid/poster.jpg"></head>
+<body><main class="page-body"><div class="entry-content">
+<h1 class="entry-title">Mock Movie (2024)</h1>
+<div>Language: Hindi / English</div>
+<h2>DOWNLOAD LINKS</h2>
+<h3><a href="https://hubcloud.foo/drive/${id}-480">480p [Hindi-English] WEB-DL x264 [400MB]</a></h3>
+<h3><a href="https://hubcloud.foo/drive/${id}-720">720p [Hindi-English] WEB-DL x264 [1.1GB]</a></h3>
+<h3><a href="https://hubcloud.foo/drive/${id}-1080">1080p [Hindi-English] WEB-DL HEVC 10Bit [2.4GB]</a></h3>
+</div></main></body></html>`;
+}
+
+function defaultBody(kind: MockBackendKind, target: string): Record<string, any> {
+  const id = Buffer.from(target).toString('base64url').slice(-12);
+
+  if (kind === 'proxy') {
+    const html = defaultMoviePage(target);
+    return { status: 'success', html, status_code: 200, url: target, content_length: html.length };
+  }
+  if (kind === 'hubcloud') {
+    const link = `https://mock-cdn.invalid/files/${id}.mkv`;
+    return {
+      status: 'success',
+      best_button_name: 'Download [FSL Server]',
+      best_download_link: link,
+      all_available_buttons: [
+        { button_name: 'Download [FSL Server]', download_link: link },
+        { button_name: 'Download [PixelServer]', download_link: `https://mock-pixel.invalid/${id}` },
+      ],
+    };
+  }
+  if (kind === 'flaresolverr') {
+    return {
+      status: 'ok',
+      message: '',
+      solution: {
+        url: target,
+        status: 200,
+        response: defaultMoviePage(target),
+        cookies: [{ name: 'cf_clearance', value: `mock-${id}` }],
+        userAgent: 'Mozilla/5.0 (MockSolverr)',
+      },
+    };
+  }
+  return { status: 'success', extracted_link: `https://hubcloud.foo/drive/${id}` };
+}
+
+/** Contract ka "soft" failure — HTTP 200 lekin status != success */
+function failStatusBody(kind: MockBackendKind): Record<string, any> {
+  if (kind === 'proxy') return { status: 'error', message: 'Mock proxy failure' };
+  if (kind === 'flaresolverr') return { status: 'error', message: 'Mock FlareSolverr failure' };
+  return { status: 'error', message: `Mock ${kind} failure` };
+}
+
+class MockBackend {
+  readonly name: string;
+  readonly kind: MockBackendKind;
+  private config: MockBackendConfig;
+  private readonly initialConfig: MockBackendConfig;
+  private requests: MockRequestLog[] = [];
+  readonly server: http.Server;
+
+  constructor(name: string, kind: MockBackendKind, config: Partial<MockBackendConfig> = {}) {
+    this.name = name;
+    this.kind = kind;
+    this.initialConfig = { ...DEFAULT_CONFIG, ...config, rules: [...(config.rules || [])] };
+    this.config = { ...this.initialConfig, rules: [...this.initialConfig.rules] };
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((e: any) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'error', message: e.message }));
+      });
+    });
+  }
+
+  private log(req: http.IncomingMessage, target: string | null, outcome: string) {
+    const path = new URL(req.url || '/', 'http://mock.local').pathname;
+    this.requests.push({ at: new Date().toISOString(), path, target, outcome, cookie: req.headers.cookie ?? null });
+    if (this.requests.length > MAX_REQUEST_LOG) this.requests.shift();
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const reqUrl = new URL(req.url || '/', 'http://mock.local');
+
+    if (reqUrl.pathname === '/__mock') return this.handleControl(req, res);
+
+    // Health probe (/api/health) — koi bhi response = reachable
+    if (reqUrl.pathname === '/') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', mock: this.kind }));
+      return;
+    }
+
+    // Direct-fetch stand-in: raw HTML page
+    const isRawPage = this.kind === 'proxy' && reqUrl.pathname.startsWith('/page/');
+
+    const expectedPath = this.kind === 'proxy' ? '/fetch' : this.kind === 'flaresolverr' ? '/v1' : '/solve';
+    let target = isRawPage ? `http://mock.local${reqUrl.pathname}` : reqUrl.searchParams.get('url');
+    if (this.kind === 'flaresolverr' && req.method === 'POST') {
+      target = (await readJson(req)).url ?? null;
+    }
+    if ((!isRawPage && reqUrl.pathname !== expectedPath) || !target) {
+      this.log(req, target, 'bad-request');
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'error', message: `Expected ${expectedPath}?url=` }));
+      return;
+    }
+
+    const rule = this.takeRule(target);
+    const latency = rule?.latencyMs ?? this.config.latencyMs + Math.random() * this.config.jitterMs;
+    await new Promise((r) => setTimeout(r, latency));
+
+    const randomFail = Math.random() < this.config.failureRate;
+    const failMode = rule?.fail ?? (randomFail ? this.config.failureMode : null);
+
+    if (failMode === 'hang') {
+      // Kabhi respond mat karo — client ka timeout / budget path test hota hai
+      this.log(req, target, 'hang');
+      return;
+    }
+    if (failMode === 'reset') {
+      this.log(req, target, 'reset');
+      req.socket.destroy();
+      return;
+    }
+    if (failMode === 'http500') {
+      this.log(req, target, 'http500');
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'error', message: 'Mock internal error' }));
+      return;
+    }
+
+    if (isRawPage) {
+      const status = failMode === 'fail-status' ? 403 : rule?.httpStatus ?? 200;
+      const html = failMode === 'fail-status'
+        ? '<html><title>Just a moment...</title><div class="cf-challenge"></div></html>'
+        : (rule?.body?.html as string) || defaultMoviePage(target);
+      this.log(req, target, `http${status}`);
+      res.writeHead(status, { 'Content-Type': 'text/html', 'Set-Cookie': 'mock_session=1; Path=/' });
+      res.end(html);
+      return;
+    }
+
+    const body = failMode === 'fail-status'
+      ? failStatusBody(this.kind)
+      : { ...defaultBody(this.kind, target), ...(rule?.body || {}) };
+
+    this.log(req, target, failMode || `http${rule?.httpStatus ?? 200}`);
+    res.writeHead(rule?.httpStatus ?? 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private takeRule(target: string): MockRule | null {
+    const idx = this.config.rules.findIndex((r) => !r.match || target.includes(r.match));
+    if (idx === -1) return null;
+
+    const rule = this.config.rules[idx];
+    if (rule.times !== undefined) {
+      if (rule.times <= 1) this.config.rules.splice(idx, 1);
+      else this.config.rules[idx] = { ...rule, times: rule.times - 1 };
+    }
+    return rule;
+  }
+
+  private async handleControl(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method === 'POST') {
+      this.configure(await readJson(req));
+    } else if (req.method === 'DELETE') {
+      this.reset();
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ name: this.name, kind: this.kind, config: this.config, requests: this.requests }));
+  }
+
+  /** Recent requests (sabse purani pehle) — tests mein "kitni baar call hua" ke liye */
+  requestLog(): MockRequestLog[] {
+    return [...this.requests];
+  }
+
+  configure(patch: Partial<MockBackendConfig>) {
+    this.config = { ...this.config, ...patch, rules: patch.rules ? [...patch.rules] : this.config.rules };
+  }
+
+  reset() {
+    this.config = { ...this.initialConfig, rules: [...this.initialConfig.rules] };
+    this.requests = [];
+  }
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, any>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+}
+
+const globalForMocks = globalThis as typeof globalThis & {
+  __mflixMockBackends?: Map<string, MockBackend>;
+};
+
+function portOf(baseUrl: string): number {
+  return parseInt(new URL(baseUrl).port, 10);
+}
+
+/**
+ * Scenario file (MOCK_BACKENDS_SCENARIO) — per mock (name) starting config:
+ * { "proxy": { "latencyMs": 200 }, "hubcloud": { "rules": [{ "match": "-1080", "fail": "hang" }] } }
+ */
+function loadScenario(): Record<string, Partial<MockBackendConfig>> {
+  const file = process.env.MOCK_BACKENDS_SCENARIO;
+  if (!file) return {};
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e: any) {
+    console.warn(`[MockBackends] ⚠️ Could not load scenario ${file}: ${e.message}`);
+    return {};
+  }
+}
+
+/** Kaunse mocks chalane hain — teen solver backends + optional fetch strategies */
+function mockTargets(): { name: string; kind: MockBackendKind; label: string; baseUrl: string }[] {
+  const targets: { name: string; kind: MockBackendKind; label: string; baseUrl: string }[] = [
+    { name: 'proxy', kind: 'proxy', label: SOLVER_BACKENDS.proxy.label, baseUrl: SOLVER_BACKENDS.proxy.baseUrl },
+    { name: 'hubcloud', kind: 'hubcloud', label: SOLVER_BACKENDS.hubcloud.label, baseUrl: SOLVER_BACKENDS.hubcloud.baseUrl },
+    { name: 'timer', kind: 'timer', label: SOLVER_BACKENDS.timer.label, baseUrl: SOLVER_BACKENDS.timer.baseUrl },
+  ];
+  if (process.env.ALT_PROXY_URL) {
+    targets.push({ name: 'alt-proxy', kind: 'proxy', label: 'Alternate Proxy', baseUrl: process.env.ALT_PROXY_URL });
+  }
+  if (process.env.FLARESOLVERR_URL) {
+    targets.push({ name: 'flaresolverr', kind: 'flaresolverr', label: 'FlareSolverr', baseUrl: process.env.FLARESOLVERR_URL });
+  }
+  return targets;
+}
+
+/**
+ * Saare mock backends start karo — configured URLs ke ports pe.
+ * Asli services same ports pe chal rahi hon toh wo mock skip hota hai.
+ * Promise tab resolve hota hai jab har mock listen kar raha ho (ya skip ho chuka ho).
+ */
+export async function startMockBackends(): Promise<void> {
+  if (globalForMocks.__mflixMockBackends) return;
+  const mocks = new Map<string, MockBackend>();
+  globalForMocks.__mflixMockBackends = mocks;
+
+  const scenario = loadScenario();
+  const started: Promise<void>[] = [];
+
+  for (const target of mockTargets()) {
+    const port = portOf(target.baseUrl);
+    const mock = new MockBackend(target.name, target.kind, scenario[target.name]);
+
+    started.push(
+      new Promise((resolve) => {
+        mock.server.on('error', (e: any) => {
+          console.warn(`[MockBackends] ⚠️ ${target.name} mock not started on :${port} — ${e.code || e.message}`);
+          mocks.delete(target.name);
+          resolve();
+        });
+        mock.server.listen(port, '127.0.0.1', () => {
+          console.log(`[MockBackends] 🧪 ${target.label} mock listening on :${port}`);
+          resolve();
+        });
+      })
+    );
+    mocks.set(target.name, mock);
+  }
+
+  await Promise.all(started);
+}
+
+/** Saare mocks band karo (tests ke baad) — 'hang' wale khule connections bhi */
+export async function stopMockBackends(): Promise<void> {
+  const mocks = globalForMocks.__mflixMockBackends;
+  if (!mocks) return;
+  globalForMocks.__mflixMockBackends = undefined;
+
+  await Promise.all(
+    Array.from(mocks.values()).map(
+      (mock) =>
+        new Promise<void>((resolve) => {
+          mock.server.close(() => resolve());
+          mock.server.closeAllConnections();
+        })
+    )
+  );
+}
+
+export function getMockBackend(name: string): MockBackend | undefined {
+  return globalForMocks.__mflixMockBackends?.get(name);
+}
@@ -0,0 +1,176 @@
+import { EventEmitter } from 'events';
+
+// =============================================================================
+// 📡 PROGRESS BUS — Server-side job events → client subscriptions
+// =============================================================================
+// Worker jobs yahan events publish karte hain (per channel).
+// Routes sirf subscribe karke NDJSON stream karte hain — client disconnect
+// ho jaye toh bhi job chalta rehta hai.
+// Channel naming: `task:<taskId>` ya `queue:<collection>/<queueId>`
+// =============================================================================
+
+export type ProgressEvent = Record<string, any>;
+
+const HISTORY_LIMIT = 300;
+// Terminal event ke baad itni der history rakho — late subscriber ko bhi replay mile
+const HISTORY_TTL_MS = 60_000;
+// Itne se zyada channels → sabse purana (least recently published) hatao
+const MAX_CHANNELS = 200;
+
+interface BusState {
+  emitter: EventEmitter;
+  history: Map<string, ProgressEvent[]>;
+  evictions: Map<string, ReturnType<typeof setTimeout>>;
+}
+
+// globalThis pe rakhte hain taaki dev HMR reloads ke baad bhi same bus mile
+const globalForBus = globalThis as typeof globalThis & { __mflixProgressBus?: BusState };
+
+function getBus(): BusState {
+  if (!globalForBus.__mflixProgressBus) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+    globalForBus.__mflixProgressBus = { emitter, history: new Map(), evictions: new Map() };
+  }
+  return globalForBus.__mflixProgressBus;
+}
+
+/**
+ * Run khatam hone wale events — task stream ka `task_complete`, queue stream ka
+ * `step: 'done'` (routes ke isTerminal jaise hi)
+ */
+function isTerminalEvent(event: ProgressEvent): boolean {
+  return event.status === 'task_complete' || event.step === 'done';
+}
+
+function cancelEviction(bus: BusState, channel: string): void {
+  const timer = bus.evictions.get(channel);
+  if (timer) clearTimeout(timer);
+  bus.evictions.delete(channel);
+}
+
+function scheduleEviction(bus: BusState, channel: string): void {
+  cancelEviction(bus, channel);
+  const timer = setTimeout(() => {
+    bus.evictions.delete(channel);
+    bus.history.delete(channel);
+  }, HISTORY_TTL_MS);
+  timer.unref?.();
+  bus.evictions.set(channel, timer);
+}
+
+export function taskChannel(taskId: string): string {
+  return `task:${taskId}`;
+}
+
+export function queueChannel(collection: string, queueId: string): string {
+  return `queue:${collection}/${queueId}`;
+}
+
+export function publish(channel: string, event: ProgressEvent): void {
+  const bus = getBus();
+  const history = bus.history.get(channel) || [];
+  history.push(event);
+  if (history.length > HISTORY_LIMIT) history.splice(0, history.length - HISTORY_LIMIT);
+
+  // Delete + set → Map order = publish order, pehla key hi sabse purana
+  bus.history.delete(channel);
+  bus.history.set(channel, history);
+  while (bus.history.size > MAX_CHANNELS) {
+    const oldest = bus.history.keys().next().value as string;
+    cancelEviction(bus, oldest);
+    bus.history.delete(oldest);
+  }
+
+  if (isTerminalEvent(event)) scheduleEviction(bus, channel);
+  else cancelEviction(bus, channel);
+
+  bus.emitter.emit(channel, event);
+}
+
+/** Naya run shuru hone pe purani history clear karo (taaki replay fresh ho) */
+export function resetChannel(channel: string): void {
+  const bus = getBus();
+  cancelEviction(bus, channel);
+  bus.history.delete(channel);
+}
+
+/**
+ * Channel subscribe karo. Pehle buffered history replay hoti hai,
+ * phir live events. Returned function se unsubscribe karo.
+ */
+export function subscribe(
+  channel: string,
+  listener: (event: ProgressEvent) => void
+): () => void {
+  const bus = getBus();
+  for (const event of bus.history.get(channel) || []) listener(event);
+  bus.emitter.on(channel, listener);
+  return () => {
+    bus.emitter.off(channel, listener);
+  };
+}
+
+/**
+ * Channel ko NDJSON Response mein convert karo.
+ * Stream tab band hoti hai jab `isTerminal` event aaye ya `maxDurationMs` khatam ho.
+ * Client disconnect = sirf unsubscribe, job pe koi asar nahi.
+ */
+export function createProgressResponse(
+  channel: string,
+  options: {
+    isTerminal: (event: ProgressEvent) => boolean;
+    maxDurationMs: number;
+    onTimeoutEvent?: ProgressEvent;
+  }
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const close = (lastEvent?: ProgressEvent) => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          if (lastEvent) controller.enqueue(encoder.encode(JSON.stringify(lastEvent) + '\n'));
+          controller.close();
+        } catch {
+          // stream already closed
+        }
+      };
+
+      const timer = setTimeout(() => close(options.onTimeoutEvent), options.maxDurationMs);
+
+      const unsubscribe = subscribe(channel, (event) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Stream closed by client
+        }
+        if (options.isTerminal(event)) close();
+      });
+
+      cleanup = () => {
+        clearTimeout(timer);
+        unsubscribe();
+      };
+      if (closed) cleanup();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
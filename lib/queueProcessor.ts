@@ -0,0 +1,475 @@
+import { extractMovieLinks } from './solvers';
+import { resolveLinkCached } from './linkCache';
+import { getScheduler, resolutionPriority } from './scheduler';
+import { buildSeriesStructure, type SeriesStructure } from './seriesParser';
+import { summarizeQuality, toLinkQuality, type ReleaseInfo } from './releaseParser';
+import { RETRY_POLICIES, shouldRetry } from './retryPolicy';
+import { classifySolverError, type SolverErrorKind } from './solverResult';
+import { GlobalTimeoutBudget } from './timeout';
+import type { ProgressEvent } from './progressBus';
+import { QUEUE_MACHINE, applyTransition, type LinkStatus, type QueueItemStatus } from './stateMachine';
+import { getStorage, type QueueCollection, type SavedCollection } from './storage';
+
+// =============================================================================
+// 📦 QUEUE ITEM PROCESSOR — movies_queue / webseries_queue ka ek item
+// =============================================================================
+// Extract → Solve → Save → Queue update. Pehle /api/auto-process ke andar tha;
+// ab server-side worker isko chalata hai aur events progress bus pe jaate hain.
+// =============================================================================
+
+export interface QueueItemInput {
+  id: string;
+  collection: QueueCollection;
+  url: string;
+  title: string;
+  type: string;
+}
+
+/**
+ * Per-link progress jo queue document pe `checkpoint` field mein save hota hai.
+ * Retry pe extraction skip hoti hai aur sirf unsolved links dobara solve hote hain.
+ */
+export interface CheckpointLink {
+  name: string;
+  originalLink: string;
+  finalLink: string | null;
+  buttonName: string | null;
+  status: Exclude<LinkStatus, 'processing'>;
+  error: string | null;
+  /** Fail hone ka typed reason (timeout / blocked / markup_changed ...) */
+  errorKind?: SolverErrorKind | null;
+  /** Kitni baar solve try hua (budget cutoff pe skip hue links count nahi hote) */
+  attempts?: number;
+  trace?: any[];
+  /** Series pages: link ke upar wali season heading (grouping ke liye) */
+  section?: string | null;
+  /** Label se parsed resolution / source / codec / size etc. */
+  release?: ReleaseInfo | null;
+}
+
+export interface QueueCheckpoint {
+  extractedAt: string;
+  metadata: Record<string, any> | null;
+  preview: { title: string; posterUrl: string | null } | null;
+  links: CheckpointLink[];
+  savedTo: { collection: SavedCollection; id: string } | null;
+  resumes: number;
+}
+
+// Itne resume ke baad bhi links bache toh jo mila wahi final maan lo
+const MAX_RESUMES = 10;
+
+/**
+ * Resume pe dobara solve karna hai? Pending hamesha; failed sirf retryable kind
+ * (not_found / markup_changed dobara bhi wahi dega) aur attempt limit ke andar.
+ */
+function needsSolve(l: CheckpointLink): boolean {
+  if (l.status === 'done') return false;
+  if (l.status === 'pending') return true;
+  // Purane checkpoints (errorKind se pehle) — pehle jaisa hamesha retry
+  if (!l.errorKind) return true;
+  return shouldRetry({ kind: l.errorKind }, l.attempts ?? 1, RETRY_POLICIES.streamSolve);
+}
+
+/**
+ * Saved webseries doc ka `seasons` tree — sirf solved links, final link ke saath.
+ * Link verifier bhi re-resolve ke baad isi se tree dobara banata hai.
+ */
+export function buildSavedSeasons(links: CheckpointLink[]): SeriesStructure {
+  return buildSeriesStructure(
+    links
+      .filter((l) => l.status === 'done' && l.finalLink)
+      .map((l) => ({
+        name: l.name,
+        link: l.finalLink!,
+        section: l.section ?? null,
+        buttonName: l.buttonName,
+      }))
+  );
+}
+
+/** Failed links mein sabse common error kind — item-level retry decision ke liye */
+function dominantErrorKind(links: CheckpointLink[]): SolverErrorKind {
+  const counts = new Map<SolverErrorKind, number>();
+  for (const l of links) {
+    const kind = l.errorKind ?? 'unknown';
+    counts.set(kind, (counts.get(kind) || 0) + 1);
+  }
+  let best: SolverErrorKind = 'unknown';
+  for (const [kind, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = kind;
+  }
+  return best;
+}
+
+/**
+ * ✅ SMART TIMEOUT: GlobalTimeoutBudget protects the entire item
+ * ♻️ CHECKPOINTS: har solved link ke baad progress queue doc pe save hota hai
+ */
+export async function processQueueItem(
+  item: QueueItemInput,
+  options: { budget: GlobalTimeoutBudget; emit: (event: ProgressEvent) => void }
+): Promise<void> {
+  const { budget, emit } = options;
+  const { id: queueId, collection, url: sourceUrl, title, type: queueType } = item;
+  const { queue, saved } = getStorage();
+  const updateQueue = (patch: Record<string, any>) => queue.update(collection, queueId, patch);
+  // Claim ke baad ka doc — status 'processing', isi se history aage badhti hai
+  let queueData: Record<string, any> = { status: 'processing' };
+  const transitionTo = (to: QueueItemStatus, reason: string) => applyTransition(QUEUE_MACHINE, queueData, to, reason);
+
+  try {
+    queueData = (await queue.get(collection, queueId))?.data || queueData;
+    let checkpoint: QueueCheckpoint | null = queueData.checkpoint?.links?.length ? queueData.checkpoint : null;
+
+    if (checkpoint) {
+      // ==================== STEP 1 (RESUME): Use saved checkpoint ====================
+      checkpoint = { ...checkpoint, resumes: (checkpoint.resumes || 0) + 1 };
+      const solvedSoFar = checkpoint.links.filter((l) => l.status === 'done').length;
+      emit({
+        step: 'extract',
+        msg: `♻️ Resuming from checkpoint: ${solvedSoFar}/${checkpoint.links.length} already solved (resume #${checkpoint.resumes})`,
+        type: 'info',
+        preview: checkpoint.preview,
+        metadata: checkpoint.metadata,
+        totalLinks: checkpoint.links.length,
+      });
+    } else {
+      // ==================== STEP 1: Extract links ====================
+      emit({ step: 'extract', msg: `🔍 Scraping page: ${title}... ${budget.getStatus()}`, type: 'info' });
+
+      const extractResult = await extractMovieLinks(sourceUrl, budget);
+
+      if (extractResult.status !== 'success' || !extractResult.links || extractResult.links.length === 0) {
+        const errMsg = extractResult.message || 'No download links found on page';
+        const errorKind: SolverErrorKind = extractResult.errorKind ?? 'markup_changed';
+        emit({ step: 'extract', msg: `❌ ${errMsg}`, type: 'error' });
+
+        await updateQueue({
+          ...transitionTo('failed', `extraction failed: ${errMsg}`),
+          error: errMsg,
+          errorKind,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: new Date().toISOString(),
+        });
+
+        emit({ step: 'done', status: 'failed', error: errMsg, errorKind });
+        return;
+      }
+
+      checkpoint = {
+        extractedAt: new Date().toISOString(),
+        metadata: extractResult.metadata || null,
+        preview: extractResult.preview || null,
+        links: extractResult.links.map((l) => ({
+          name: l.name,
+          section: l.section,
+          release: l.release,
+          originalLink: l.link,
+          finalLink: null,
+          buttonName: null,
+          status: 'pending',
+          error: null,
+        })),
+        // Legacy items jo pehle save ho chuke hain unhi mein merge karo
+        savedTo: queueData.savedTo || null,
+        resumes: 0,
+      };
+      await updateQueue({ checkpoint, updatedAt: new Date().toISOString() });
+
+      emit({
+        step: 'extract',
+        msg: `✅ Found ${checkpoint.links.length} links. ${budget.getStatus()}`,
+        type: 'success',
+        preview: checkpoint.preview,
+        metadata: checkpoint.metadata,
+        totalLinks: checkpoint.links.length,
+      });
+    }
+
+    const cp = checkpoint;
+    const { metadata, preview } = cp;
+    const totalLinks = cp.links.length;
+    const toSolve = cp.links
+      .map((l, i) => ({ l, i }))
+      .filter(({ l }) => needsSolve(l));
+
+    // ==================== STEP 2: Solve unsolved links ====================
+    const givenUp = cp.links.filter((l) => l.status !== 'done' && !needsSolve(l)).length;
+    emit({
+      step: 'solve',
+      msg: `⚡ Resolving ${toSolve.length} of ${totalLinks} links...${givenUp > 0 ? ` (${givenUp} failed permanently, not retried)` : ''}`,
+      type: 'info',
+    });
+
+    // 🚦 Shared scheduler — global + per-host limits, 1080p pehle
+    const scheduler = getScheduler();
+    let unstarted = toSolve.length;
+
+    // 💾 Checkpoint writes ek line mein — parallel links ke writes out of order land
+    // karke naya progress purane snapshot se overwrite na karein. Har write chalte
+    // waqt ka `cp` likhta hai, toh aakhri write mein sab links hote hain.
+    let checkpointWrites: Promise<unknown> = Promise.resolve();
+    const saveCheckpoint = (): Promise<void> => {
+      const write = checkpointWrites.then(() => updateQueue({ checkpoint: cp, updatedAt: new Date().toISOString() }));
+      checkpointWrites = write.catch(() => {});
+      return write;
+    };
+
+    const outcomes = await scheduler.runAll(
+      toSolve.map(({ l: linkData, i }) => ({
+        id: i,
+        url: linkData.originalLink,
+        priority: resolutionPriority(linkData.name),
+        run: async () => {
+          // ⚖️ Fair share — ek slow link baaki links ka time na kha jaye
+          const linkBudget = budget.shareFor(unstarted, scheduler.globalConcurrency);
+          unstarted--;
+
+          emit({
+            step: 'solve',
+            msg: `🔗 [${i + 1}/${totalLinks}] Solving: ${linkData.name} ${budget.getStatus()}`,
+            type: 'info',
+            progress: { current: i + 1, total: totalLinks },
+          });
+
+          const result = await resolveLinkCached(linkData.originalLink, {
+            budget: linkBudget,
+            onLog: (msg, type) => emit({ step: 'solve', msg: `   ↳ ${msg}`, type, linkIndex: i }),
+          });
+
+          cp.links[i] = {
+            name: linkData.name,
+            section: linkData.section ?? null,
+            release: linkData.release ?? null,
+            originalLink: linkData.originalLink,
+            finalLink: result.finalLink || null,
+            buttonName: result.buttonName || null,
+            status: result.status,
+            error: result.error || null,
+            errorKind: result.errorKind ?? null,
+            attempts: (linkData.attempts ?? 0) + 1,
+            trace: result.trace,
+          };
+
+          // 💾 Checkpoint after every link — crash / cutoff pe progress safe rahe
+          await saveCheckpoint();
+
+          if (result.status === 'done') {
+            emit({
+              step: 'solve',
+              msg: `✅ [${i + 1}/${totalLinks}] ${linkData.name} → SOLVED`,
+              type: 'success',
+            });
+          } else {
+            emit({
+              step: 'solve',
+              msg: `❌ [${i + 1}/${totalLinks}] ${linkData.name} → FAILED: ${result.error}`,
+              type: 'error',
+            });
+          }
+        },
+      })),
+      { budget }
+    );
+
+    for (const outcome of outcomes) {
+      const linkData = cp.links[outcome.id];
+
+      // 🚀 Budget khatam hone se pehle start hi nahi hua → next run mein resume
+      if (outcome.status === 'skipped') {
+        emit({
+          step: 'solve',
+          msg: `⏱️ [${outcome.id + 1}/${totalLinks}] SKIPPED — Global timeout reached`,
+          type: 'warn',
+        });
+        cp.links[outcome.id] = {
+          ...linkData,
+          status: 'timeout',
+          error: '⏱️ Global timeout — will resume from checkpoint',
+          errorKind: 'budget_expired',
+          // Shuru hi nahi hua — attempt count nahi hota
+          attempts: linkData.attempts ?? 0,
+        };
+      } else if (outcome.status === 'error' && linkData.status !== 'done') {
+        cp.links[outcome.id] = { ...linkData, status: 'error', error: outcome.error, attempts: (linkData.attempts ?? 0) + 1 };
+      }
+    }
+
+    const resolvedLinks = cp.links;
+    const successfulLinks = resolvedLinks.filter((l) => l.status === 'done');
+    const failedLinks = resolvedLinks.filter((l) => l.status !== 'done');
+    const timedOutLinks = resolvedLinks.filter((l) => l.status === 'timeout');
+    // Sirf wahi timed-out links jinke attempts bache hain — baaki final
+    const resumableLinks = timedOutLinks.filter(needsSolve);
+    const willResume = resumableLinks.length > 0 && cp.resumes < MAX_RESUMES;
+
+    emit({
+      step: 'solve',
+      msg: `📊 Results: ${successfulLinks.length} solved, ${failedLinks.length} failed${timedOutLinks.length > 0 ? `, ${timedOutLinks.length} timed out` : ''} out of ${totalLinks}`,
+      type: successfulLinks.length > 0 ? 'success' : 'error',
+    });
+
+    if (successfulLinks.length === 0 && !willResume) {
+      emit({ step: 'save', msg: '❌ No links resolved. Skipping save.', type: 'error' });
+      const errorKind = dominantErrorKind(failedLinks);
+
+      await updateQueue({
+        ...transitionTo('failed', 'all links failed'),
+        error: timedOutLinks.length > 0
+          ? `All links failed (${timedOutLinks.length} timed out due to Vercel limit)`
+          : 'All download links failed to resolve',
+        errorKind,
+        checkpoint: cp,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date().toISOString(),
+      });
+
+      emit({ step: 'done', status: 'failed', error: 'All links failed', errorKind });
+      return;
+    }
+
+    // ==================== STEP 3: Save / merge into database ====================
+    const mainCollection: SavedCollection = queueType === 'webseries' ? 'webseries' : 'movies';
+    let savedTo = cp.savedTo;
+
+    if (successfulLinks.length > 0) {
+      emit({ step: 'save', msg: `💾 Saving to database... ${budget.getStatus()}`, type: 'info' });
+
+      const savedQuality = summarizeQuality(successfulLinks.map((l) => l.release));
+
+      const movieDoc: Record<string, any> = {
+        title: preview?.title || title,
+        posterUrl: preview?.posterUrl || null,
+        sourceUrl: sourceUrl,
+        // Jo links actually solve hue unhi ka summary
+        quality: savedQuality.quality || metadata?.quality || 'Unknown',
+        languages: savedQuality.languages.length > 0
+          ? savedQuality.languages.join(', ')
+          : metadata?.languages || 'Not Specified',
+        audioLabel: savedQuality.audioLabel || metadata?.audioLabel || 'Unknown',
+        type: queueType,
+        downloadLinks: successfulLinks.map((l) => ({
+          name: l.name,
+          link: l.finalLink,
+          buttonName: l.buttonName,
+          release: l.release ?? null,
+          quality: toLinkQuality(l.release),
+        })),
+        availableResolutions: savedQuality.resolutions,
+        allLinks: resolvedLinks,
+        // 📺 Webseries → Season → Episode → quality links
+        ...(queueType === 'webseries' ? { seasons: buildSavedSeasons(resolvedLinks) } : {}),
+        totalLinks: totalLinks,
+        successfulLinks: successfulLinks.length,
+        failedLinks: failedLinks.length,
+        timedOutLinks: timedOutLinks.length,
+        status: 'active',
+        autoProcessed: true,
+        // Abhi resolve hue → verified; re-verification job yahin se count karega
+        lastVerifiedAt: new Date().toISOString(),
+        queueRef: {
+          id: queueId,
+          collection: collection,
+        },
+      };
+
+      if (savedTo) {
+        // ♻️ Same document mein merge — duplicate nahi banega
+        await saved.merge(savedTo.collection, savedTo.id, { ...movieDoc, updatedAt: new Date().toISOString() });
+      } else {
+        const savedId = await saved.create(mainCollection, {
+          ...movieDoc,
+          createdAt: new Date().toISOString(),
+        });
+        savedTo = { collection: mainCollection, id: savedId };
+        cp.savedTo = savedTo;
+      }
+
+      emit({
+        step: 'save',
+        msg: `✅ Saved to "${savedTo.collection}" (ID: ${savedTo.id})`,
+        type: 'success',
+        savedId: savedTo.id,
+        savedCollection: savedTo.collection,
+      });
+    }
+
+    // ==================== STEP 4 (PARTIAL): Budget cutoff → resume later ====================
+    if (willResume) {
+      await updateQueue({
+        // Pending = worker isko dobara claim karega aur checkpoint se aage badhega
+        ...transitionTo('pending', `budget expired, ${resumableLinks.length} links left for resume`),
+        checkpoint: cp,
+        ...(savedTo ? { savedTo } : {}),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date().toISOString(),
+      });
+
+      emit({
+        step: 'complete',
+        msg: `⏳ Checkpoint saved: ${resumableLinks.length} links left for next run. ${budget.getStatus()}`,
+        type: 'warn',
+      });
+
+      emit({
+        step: 'done',
+        status: 'processing',
+        title: preview?.title || title,
+        successfulLinks: successfulLinks.length,
+        remainingLinks: resumableLinks.length,
+      });
+      return;
+    }
+
+    // ==================== STEP 4: Update queue ====================
+    emit({ step: 'complete', msg: '🔄 Updating queue status...', type: 'info' });
+
+    await updateQueue({
+      ...transitionTo('completed', `${successfulLinks.length}/${totalLinks} links solved`),
+      processedAt: new Date().toISOString(),
+      errorKind: null,
+      savedTo,
+      checkpoint: cp,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date().toISOString(),
+    });
+
+    emit({
+      step: 'complete',
+      msg: `🎉 "${preview?.title || title}" processed! ${budget.getStatus()}`,
+      type: 'success',
+    });
+
+    emit({
+      step: 'done',
+      status: 'completed',
+      savedId: savedTo!.id,
+      savedCollection: savedTo!.collection,
+      title: preview?.title || title,
+      successfulLinks: successfulLinks.length,
+      failedLinks: failedLinks.length,
+      timedOutLinks: timedOutLinks.length,
+    });
+
+  } catch (e: any) {
+    console.error('[QueueProcessor] Critical error:', e.message);
+    const errorKind = classifySolverError(e, { budget }).kind;
+    emit({ step: 'done', status: 'failed', error: e.message, errorKind });
+
+    try {
+      await updateQueue({
+        ...transitionTo('failed', `critical error: ${e.message}`),
+        error: e.message,
+        errorKind,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch {}
+  }
+}
@@ -0,0 +1,228 @@
+// =============================================================================
+// 🏷️ RELEASE-NAME PARSER — Link label → structured fields
+// =============================================================================
+// extractMovieMetadata poore page ka sirf pehla resolution + best format rakhta
+// hai. Ye parser har button label ko alag se parse karta hai:
+//   "Episode 01-08 [Hindi-English] 1080p WEB-DL HEVC 10Bit HDR [4.2GB] Zip"
+//   → { resolution: '1080p', source: 'WEB-DL', codec: 'HEVC', bitDepth: 10,
+//       dynamicRange: 'HDR', languages: ['English','Hindi'], fileSize: '4.2GB',
+//       episodes: { from: 1, to: 8 }, isPack: true }
+// =============================================================================
+
+export interface ReleaseInfo {
+  resolution: string | null;
+  source: string | null;
+  codec: string | null;
+  bitDepth: number | null;
+  dynamicRange: string | null;
+  languages: string[];
+  fileSize: string | null;
+  sizeBytes: number | null;
+  episodes: { from: number; to: number } | null;
+  isPack: boolean;
+}
+
+export const KNOWN_LANGUAGES = [
+  'Hindi', 'English', 'Tamil', 'Telugu', 'Malayalam',
+  'Kannada', 'Punjabi', 'Marathi', 'Bengali', 'Spanish',
+  'French', 'Korean', 'Japanese', 'Chinese',
+];
+
+// Order matters — pehla match jeetta hai
+const RESOLUTION_PATTERNS: [RegExp, string][] = [
+  [/\b(2160p|4k|uhd)\b/i, '2160p'],
+  [/\b1080p\b/i, '1080p'],
+  [/\b720p\b/i, '720p'],
+  [/\b576p\b/i, '576p'],
+  [/\b480p\b/i, '480p'],
+  [/\b360p\b/i, '360p'],
+];
+
+const SOURCE_PATTERNS: [RegExp, string][] = [
+  [/\bWEB[-. ]?DL\b/i, 'WEB-DL'],
+  [/\bWEB[-. ]?Rip\b/i, 'WEBRip'],
+  [/\bBlu[-. ]?Ray\b|\bBDRip\b|\bBRRip\b/i, 'BluRay'],
+  [/\bHD[-. ]?TC\b/i, 'HDTC'],
+  [/\bHD[-. ]?TS\b|\bTelesync\b/i, 'HDTS'],
+  [/\bHD[-. ]?Rip\b/i, 'HDRip'],
+  [/\bHDTV\b/i, 'HDTV'],
+  [/\bDVD[-. ]?Rip\b/i, 'DVDRip'],
+  [/\bCAM[-. ]?Rip\b|\bCAM\b/i, 'CAM'],
+];
+
+const CODEC_PATTERNS: [RegExp, string][] = [
+  [/\b(HEVC|x265|H[.\s]?265)\b/i, 'HEVC'],
+  [/\b(x264|H[.\s]?264|AVC)\b/i, 'x264'],
+  [/\bAV1\b/i, 'AV1'],
+];
+
+const DYNAMIC_RANGE_PATTERNS: [RegExp, string][] = [
+  [/\b(DV|Dolby[-. ]?Vision|DoVi)\b/i, 'DV'],
+  [/\bHDR10\+|\bHDR10Plus\b/i, 'HDR10+'],
+  [/\bHDR10\b/i, 'HDR10'],
+  [/\bHDR\b/i, 'HDR'],
+  [/\bSDR\b/i, 'SDR'],
+];
+
+const BIT_DEPTH_RE = /\b(8|10|12)[-\s]?bit\b/i;
+const SIZE_RE = /(\d+(?:\.\d+)?)\s*(GB|MB|TB)\b/i;
+const EPISODE_RANGE_RE = /\b(?:Episodes?|Eps?|E)\s*[.\-_: ]?\s*0*(\d{1,3})\s*(?:-|to|~|–)\s*(?:Episodes?|Eps?|E)?\s*0*(\d{1,3})\b/i;
+const SINGLE_EPISODE_RE = /\b(?:Episode|Epi|Ep|E)\s*[.\-_: ]?\s*0*(\d{1,3})\b|\bS\d{1,2}\s*E(\d{1,3})\b/i;
+const PACK_RE = /\b(zip|pack|complete|batch|combined|all\s+episodes?)\b/i;
+
+const SIZE_MULTIPLIER: Record<string, number> = {
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+function firstMatch(text: string, patterns: [RegExp, string][]): string | null {
+  for (const [pattern, value] of patterns) {
+    if (pattern.test(text)) return value;
+  }
+  return null;
+}
+
+export function parseResolution(text: string): string | null {
+  return firstMatch(text, RESOLUTION_PATTERNS);
+}
+
+export function parseLanguages(text: string): string[] {
+  const found = KNOWN_LANGUAGES.filter((lang) => new RegExp(`\\b${lang}\\b`, 'i').test(text));
+  // "Hin-Eng" / "Hin" short forms jo series pages pe common hain
+  if (!found.includes('Hindi') && /\bHin\b/i.test(text)) found.push('Hindi');
+  if (!found.includes('English') && /\bEng\b/i.test(text)) found.push('English');
+  return found.sort();
+}
+
+/**
+ * Ek link label parse karo. `context` (section heading etc.) sirf un fields ke
+ * liye fallback hai jo label mein nahi mile — episode / size hamesha label se.
+ */
+export function parseReleaseLabel(label: string, context: string | null = null): ReleaseInfo {
+  const text = label || '';
+  const ctx = context || '';
+
+  const sizeMatch = text.match(SIZE_RE);
+  const rangeMatch = text.match(EPISODE_RANGE_RE);
+  const singleMatch = rangeMatch ? null : text.match(SINGLE_EPISODE_RE);
+  const singleEpisode = singleMatch ? parseInt(singleMatch[1] || singleMatch[2], 10) : null;
+
+  let episodes: ReleaseInfo['episodes'] = null;
+  if (rangeMatch) {
+    episodes = { from: parseInt(rangeMatch[1], 10), to: parseInt(rangeMatch[2], 10) };
+  } else if (singleEpisode !== null) {
+    episodes = { from: singleEpisode, to: singleEpisode };
+  }
+
+  const bitDepth = text.match(BIT_DEPTH_RE) || ctx.match(BIT_DEPTH_RE);
+  const languages = parseLanguages(text);
+
+  return {
+    resolution: parseResolution(text) || parseResolution(ctx),
+    source: firstMatch(text, SOURCE_PATTERNS) || firstMatch(ctx, SOURCE_PATTERNS),
+    codec: firstMatch(text, CODEC_PATTERNS) || firstMatch(ctx, CODEC_PATTERNS),
+    bitDepth: bitDepth ? parseInt(bitDepth[1], 10) : null,
+    dynamicRange: firstMatch(text, DYNAMIC_RANGE_PATTERNS) || firstMatch(ctx, DYNAMIC_RANGE_PATTERNS),
+    languages: languages.length > 0 ? languages : parseLanguages(ctx),
+    fileSize: sizeMatch ? `${sizeMatch[1]}${sizeMatch[2].toUpperCase()}` : null,
+    sizeBytes: sizeMatch
+      ? Math.round(parseFloat(sizeMatch[1]) * SIZE_MULTIPLIER[sizeMatch[2].toUpperCase()])
+      : null,
+    episodes,
+    isPack:
+      PACK_RE.test(text) ||
+      (episodes !== null && episodes.to > episodes.from) ||
+      (episodes === null && PACK_RE.test(ctx)),
+  };
+}
+
+// =============================================================================
+// PER-LINK QUALITY + PAGE SUMMARY
+// =============================================================================
+
+export interface LinkQuality {
+  resolution: string | null;
+  /** Display label, e.g. "1080p WEB-DL HEVC" */
+  label: string | null;
+  size: string | null;
+  languages: string[];
+  audioLabel: string | null;
+}
+
+export interface QualitySummary {
+  /** Saare available resolutions, chhote se bade (quality picker ke liye) */
+  resolutions: string[];
+  quality: string | null;
+  languages: string[];
+  audioLabel: string | null;
+}
+
+const RESOLUTION_ORDER = ['360p', '480p', '576p', '720p', '1080p', '2160p'];
+const SOURCE_PRIORITY: Record<string, number> = {
+  'WEB-DL': 5, BluRay: 4, WEBRip: 3, HDRip: 2, HDTV: 2, DVDRip: 1, HDTC: 0, HDTS: 0, CAM: 0,
+};
+
+/** Same rule jo extractMovieMetadata page-level pe lagata tha */
+export function audioLabelFor(languages: string[]): string | null {
+  if (languages.length === 0) return null;
+  if (languages.length === 1) return languages[0];
+  if (languages.length === 2) return 'Dual Audio';
+  return 'Multi Audio';
+}
+
+export function toLinkQuality(release: ReleaseInfo | null | undefined): LinkQuality | null {
+  if (!release) return null;
+  const label = [release.resolution, release.source, release.codec].filter(Boolean).join(' ');
+  return {
+    resolution: release.resolution,
+    label: label || null,
+    size: release.fileSize,
+    languages: release.languages,
+    audioLabel: audioLabelFor(release.languages),
+  };
+}
+
+/**
+ * Per-link releases se page-level summary — pehla match nahi, poora set.
+ * e.g. quality: "480P / 720P / 1080P / 2160P WEB-DL"
+ */
+export function summarizeQuality(releases: (ReleaseInfo | null | undefined)[]): QualitySummary {
+  const present = releases.filter((r): r is ReleaseInfo => !!r);
+
+  const resolutions = Array.from(new Set(present.map((r) => r.resolution).filter((r): r is string => !!r)))
+    .sort((a, b) => RESOLUTION_ORDER.indexOf(a) - RESOLUTION_ORDER.indexOf(b));
+
+  const bestSource = present
+    .map((r) => r.source)
+    .filter((src): src is string => !!src)
+    .sort((a, b) => (SOURCE_PRIORITY[b] ?? -1) - (SOURCE_PRIORITY[a] ?? -1))[0] || null;
+
+  const languages = Array.from(new Set(present.flatMap((r) => r.languages))).sort();
+
+  return {
+    resolutions,
+    quality: resolutions.length > 0
+      ? `${resolutions.map((r) => r.toUpperCase()).join(' / ')}${bestSource ? ` ${bestSource}` : ''}`
+      : null,
+    languages,
+    audioLabel: audioLabelFor(languages),
+  };
+}
+
+/**
+ * Page metadata (extractMovieMetadata) ko per-link summary se override karo.
+ * Links se kuch na mile toh purana page-level value hi rehta hai.
+ */
+export function mergeQualityMetadata<T extends { quality: string; languages: string; audioLabel: string }>(
+  metadata: T,
+  summary: QualitySummary
+): T & { resolutions: string[] } {
+  return {
+    ...metadata,
+    quality: summary.quality || metadata.quality,
+    languages: summary.languages.length > 0 ? summary.languages.join(', ') : metadata.languages,
+    audioLabel: summary.audioLabel || metadata.audioLabel,
+    resolutions: summary.resolutions,
+  };
+}
@@ -0,0 +1,126 @@
+import type { SolverErrorKind } from './solverResult';
+
+// =============================================================================
+// 🔁 RETRY POLICY — Error kind dekh ke retry, backoff + jitter ke saath
+// =============================================================================
+// Pehle har jagah apna jugaad tha (fixed 2s sleep, har error → pending, proxy
+// ek baar + direct ek baar). Ab ek hi rule-set:
+// - timeout / backend_down / 5xx → backoff ke baad retry
+// - not_found / markup_changed  → kabhi retry nahi (dobara bhi wahi milega)
+// - blocked (Cloudflare / 403)  → same path retry nahi, fetch path switch karo
+// Har consumer (page fetch, solver hop, task link, auto-process item) ki apni
+// attempt limit + delays. Client-safe — koi server import nahi.
+// =============================================================================
+
+export type RetryDecision = 'retry' | 'switch_path' | 'stop';
+
+export interface RetryableError {
+  kind: SolverErrorKind;
+  httpStatus?: number | null;
+  message?: string;
+}
+
+export interface RetryPolicy {
+  name: string;
+  /** Total attempts (pehli try milake) */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** 0..1 — delay ka kitna hissa random ho */
+  jitter: number;
+  /** Default rules ke upar per-consumer override */
+  rules?: Partial<Record<SolverErrorKind, RetryDecision>>;
+}
+
+const DEFAULT_RULES: Record<SolverErrorKind, RetryDecision> = {
+  timeout: 'retry',
+  backend_down: 'retry',
+  blocked: 'switch_path',
+  not_found: 'stop',
+  markup_changed: 'stop',
+  // Budget khatam → is request mein retry ka time hi nahi
+  budget_expired: 'stop',
+  unknown: 'retry',
+};
+
+export const RETRY_POLICIES = {
+  /** fetchPageHTML — har fetch path (proxy / direct) pe */
+  pageFetch: { name: 'pageFetch', maxAttempts: 2, baseDelayMs: 500, maxDelayMs: 3_000, jitter: 0.5 },
+  /** resolveLink — ek solver hop */
+  solver: { name: 'solver', maxAttempts: 2, baseDelayMs: 750, maxDelayMs: 4_000, jitter: 0.5 },
+  /** Task links (stream_solve) + auto-process checkpoint links — failed links agli run mein dobara */
+  streamSolve: {
+    name: 'streamSolve',
+    maxAttempts: 3,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    jitter: 0,
+    // Agli run ko fresh budget milta hai — timeout wale links zaroor dobara
+    rules: { budget_expired: 'retry', blocked: 'retry' },
+  },
+  /** Auto-processor page — poora queue item */
+  autoProcess: {
+    name: 'autoProcess',
+    maxAttempts: 3,
+    baseDelayMs: 2_000,
+    maxDelayMs: 30_000,
+    jitter: 0.3,
+    rules: { budget_expired: 'retry', blocked: 'retry' },
+  },
+} satisfies Record<string, RetryPolicy>;
+
+/** Ye error is policy mein kya karwata hai (attempt limit check alag) */
+export function retryDecision(error: RetryableError, policy: RetryPolicy): RetryDecision {
+  const decision = policy.rules?.[error.kind] ?? DEFAULT_RULES[error.kind];
+
+  // Unknown error: sirf network / 5xx type cheezein retry karo, 4xx nahi
+  if (error.kind === 'unknown' && decision === 'retry') {
+    const status = error.httpStatus ?? null;
+    return status === null || status >= 500 ? 'retry' : 'stop';
+  }
+  return decision;
+}
+
+/** `attempt` (1-based) fail hua — agla attempt chalana hai? */
+export function shouldRetry(error: RetryableError, attempt: number, policy: RetryPolicy): boolean {
+  return attempt < policy.maxAttempts && retryDecision(error, policy) === 'retry';
+}
+
+/** Exponential backoff: base * 2^(attempt-1), max tak capped, phir jitter */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  const spread = exp * policy.jitter;
+  return Math.max(0, Math.round(exp - spread + Math.random() * spread * 2));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * fn ko policy ke hisaab se chalao. `classify` null lautaye = success.
+ * Delay budget se zyada ho (`remainingMs`) toh retry nahi — result wahi jo mila.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: {
+    policy: RetryPolicy;
+    classify: (result: T) => RetryableError | null;
+    remainingMs?: () => number;
+    onRetry?: (info: { attempt: number; delayMs: number; error: RetryableError }) => void;
+  }
+): Promise<T> {
+  const { policy, classify } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await fn(attempt);
+    const error = classify(result);
+    if (!error || !shouldRetry(error, attempt, policy)) return result;
+
+    const delayMs = backoffDelay(attempt, policy);
+    if (options.remainingMs && options.remainingMs() <= delayMs) return result;
+
+    options.onRetry?.({ attempt, delayMs, error });
+    await sleep(delayMs);
+  }
+}
@@ -0,0 +1,29 @@
+// =============================================================================
+// 🛡️ ROLES — viewer < operator < admin (client + server dono use karte hain)
+// =============================================================================
+// viewer   : tasks / queue / health dekh sakta hai, live progress subscribe
+// operator : naye tasks, auto-processor chalana, queue edit, verify / replay
+// admin    : tasks delete + sab kuch
+// =============================================================================
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+const ROLE_RANK: Record<Role, number> = { viewer: 1, operator: 2, admin: 3 };
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/** `role` ke paas kam se kam `required` jitni permission hai? */
+export function hasRole(role: Role | null | undefined, required: Role): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export interface SessionInfo {
+  authenticated: boolean;
+  /** AUTH_MODE=off → sab admin, login page skip */
+  authDisabled: boolean;
+  principal: { id: string; role: Role; via: 'session' | 'api-key' | 'disabled' } | null;
+}
@@ -0,0 +1,184 @@
+import { GlobalTimeoutBudget } from './timeout';
+
+// =============================================================================
+// 🚦 LINK SCHEDULER — Bounded concurrency + fair, priority-ordered scheduling
+// =============================================================================
+// Pehle task links `Promise.all` se ek saath fire hote the (20 links = 20 hits
+// hubcloud + proxy pe), aur queue items strictly ek-ek karke. Ab dono ek hi
+// shared scheduler use karte hain:
+// - Global limit: poore process mein max N links saath-saath
+// - Per-host limit: ek host pe max M links saath-saath (rate-limit se bacho)
+// - Priority: resolution ke hisaab se (1080p pehle), phir FIFO
+// - Budget: job start hone se pehle budget khatam → 'skipped' (chalaya nahi)
+// =============================================================================
+
+const DEFAULT_GLOBAL_CONCURRENCY = 6;
+const DEFAULT_PER_HOST_CONCURRENCY = 2;
+
+export interface SchedulerLimits {
+  globalConcurrency: number;
+  perHostConcurrency: number;
+}
+
+export interface ScheduledJob<T> {
+  /** Caller ka apna id (link index etc.) — outcome mein wapas milta hai */
+  id: number;
+  /** Link URL — per-host limit isi ke hostname pe lagta hai */
+  url: string;
+  priority: number;
+  run: () => Promise<T>;
+}
+
+export type ScheduledOutcome<T> =
+  | { id: number; status: 'done'; value: T }
+  | { id: number; status: 'skipped' }
+  | { id: number; status: 'error'; error: string };
+
+interface QueueEntry {
+  seq: number;
+  host: string;
+  priority: number;
+  budget: GlobalTimeoutBudget;
+  start: () => void;
+  skip: () => void;
+}
+
+/**
+ * Resolution → priority score. Zyada score = pehle solve.
+ * 1080p sabse pehle (sabse zyada maanga jaata hai), phir 4K, 720p, 480p.
+ */
+export function resolutionPriority(name: string): number {
+  const n = (name || '').toLowerCase();
+  if (n.includes('1080p')) return 100;
+  if (n.includes('2160p') || n.includes('4k')) return 90;
+  if (n.includes('720p')) return 80;
+  if (n.includes('480p')) return 60;
+  return 50;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function readLimit(envValue: string | undefined, fallback: number): number {
+  const parsed = parseInt(envValue || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export class LinkScheduler {
+  private limits: SchedulerLimits;
+  private waiting: QueueEntry[] = [];
+  private activeTotal = 0;
+  private activePerHost = new Map<string, number>();
+  private seq = 0;
+
+  constructor(limits: SchedulerLimits) {
+    this.limits = limits;
+  }
+
+  get globalConcurrency(): number {
+    return this.limits.globalConcurrency;
+  }
+
+  /**
+   * Jobs ko schedule karo aur sab ke khatam hone ka wait karo.
+   * Outcomes input order mein milte hain.
+   */
+  async runAll<T>(
+    jobs: ScheduledJob<T>[],
+    options: { budget: GlobalTimeoutBudget }
+  ): Promise<ScheduledOutcome<T>[]> {
+    return Promise.all(jobs.map((job) => this.schedule(job, options.budget)));
+  }
+
+  private schedule<T>(job: ScheduledJob<T>, budget: GlobalTimeoutBudget): Promise<ScheduledOutcome<T>> {
+    const host = hostOf(job.url);
+
+    return new Promise((resolve) => {
+      const entry: QueueEntry = {
+        seq: this.seq++,
+        host,
+        priority: job.priority,
+        budget,
+        skip: () => resolve({ id: job.id, status: 'skipped' }),
+        start: () => {
+          job
+            .run()
+            .then((value) => resolve({ id: job.id, status: 'done', value }))
+            .catch((e: any) => resolve({ id: job.id, status: 'error', error: e?.message || String(e) }))
+            .finally(() => this.release(host));
+        },
+      };
+
+      this.waiting.push(entry);
+      this.pump();
+    });
+  }
+
+  private release(host: string) {
+    this.activeTotal--;
+    const count = (this.activePerHost.get(host) || 1) - 1;
+    if (count <= 0) this.activePerHost.delete(host);
+    else this.activePerHost.set(host, count);
+    this.pump();
+  }
+
+  /** Jitne slots khaali hain utne highest-priority eligible jobs start karo */
+  private pump() {
+    this.waiting.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+
+    for (let i = 0; i < this.waiting.length; ) {
+      const entry = this.waiting[i];
+
+      // Budget khatam → chalao mat, caller baad mein retry kar sakta hai
+      if (entry.budget.isExpired) {
+        this.waiting.splice(i, 1);
+        entry.skip();
+        continue;
+      }
+
+      if (this.activeTotal >= this.limits.globalConcurrency) break;
+
+      const hostActive = this.activePerHost.get(entry.host) || 0;
+      if (hostActive >= this.limits.perHostConcurrency) {
+        i++;
+        continue;
+      }
+
+      this.waiting.splice(i, 1);
+      this.activeTotal++;
+      this.activePerHost.set(entry.host, hostActive + 1);
+      entry.start();
+    }
+  }
+
+  getStats() {
+    return {
+      limits: { ...this.limits },
+      active: this.activeTotal,
+      waiting: this.waiting.length,
+      perHost: Object.fromEntries(this.activePerHost),
+    };
+  }
+}
+
+const globalForScheduler = globalThis as typeof globalThis & { __mflixScheduler?: LinkScheduler };
+
+/**
+ * Process-wide shared scheduler — task links aur queue items dono ek hi
+ * limits share karte hain. Limits env se configurable:
+ * SCHEDULER_GLOBAL_CONCURRENCY, SCHEDULER_PER_HOST_CONCURRENCY
+ */
+export function getScheduler(): LinkScheduler {
+  if (!globalForScheduler.__mflixScheduler) {
+    globalForScheduler.__mflixScheduler = new LinkScheduler({
+      globalConcurrency: readLimit(process.env.SCHEDULER_GLOBAL_CONCURRENCY, DEFAULT_GLOBAL_CONCURRENCY),
+      perHostConcurrency: readLimit(process.env.SCHEDULER_PER_HOST_CONCURRENCY, DEFAULT_PER_HOST_CONCURRENCY),
+    });
+  }
+  return globalForScheduler.__mflixScheduler;
+}
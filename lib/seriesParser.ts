@@ -0,0 +1,167 @@
+import { parseReleaseLabel, parseResolution } from './releaseParser';
+
+// =============================================================================
+// 📺 SERIES PARSER — Webseries links ko Season → Episode → Quality mein group karo
+// =============================================================================
+// Series pages pe buttons aise hote hain: "Episode 1 720p", "EP-02 [1080p]",
+// "S01E05 480p", "Season 2 Complete Pack 1080p". Season aksar button mein nahi,
+// upar wali heading ("Season 1 [Hindi-English] 720p") mein hota hai —
+// isliye extractMovieLinks har link ke saath uska `section` heading bhi deta hai.
+// =============================================================================
+
+export interface SeriesLinkInfo {
+  season: number | null;
+  episode: number | null;
+  isPack: boolean;
+  quality: string | null;
+}
+
+export interface SeriesLinkRef {
+  name: string;
+  link: string;
+  quality: string | null;
+  buttonName?: string | null;
+}
+
+export interface SeriesEpisode {
+  episode: number;
+  links: SeriesLinkRef[];
+}
+
+export interface SeriesSeason {
+  season: number;
+  episodes: SeriesEpisode[];
+  /** Poore season ke zip / complete packs */
+  packs: SeriesLinkRef[];
+}
+
+export interface SeriesStructure {
+  seasons: SeriesSeason[];
+  /** Jo links kisi season / episode mein fit nahi hue */
+  unsorted: SeriesLinkRef[];
+  totalEpisodes: number;
+}
+
+const SEASON_EPISODE_RE = /\bS(\d{1,2})\s*[.\-_ ]?\s*E(\d{1,3})\b/i;
+const SEASON_RE = /\b(?:Season|Seas|S)\s*[.\-_ ]?\s*0*(\d{1,2})\b/i;
+const EPISODE_RE = /\b(?:Episode|Epi|Ep|E)\s*[.\-_: ]?\s*0*(\d{1,3})\b/i;
+const PACK_RE = /\b(complete|pack|zip|batch|all\s+episodes?|combined)\b/i;
+
+/** Heading / button mein season ka zikr hai? (section heading pick karne ke liye) */
+export function hasSeasonMarker(text: string): boolean {
+  return SEASON_EPISODE_RE.test(text) || SEASON_RE.test(text) || PACK_RE.test(text);
+}
+
+export function parseQuality(text: string): string | null {
+  return parseResolution(text);
+}
+
+/**
+ * Ek link ka season / episode / pack / quality nikaalo.
+ * Button text pehle, phir section heading (season aksar wahi hota hai).
+ */
+export function parseSeriesLink(name: string, section: string | null = null): SeriesLinkInfo {
+  const sources = [name, section || ''];
+  let season: number | null = null;
+  let episode: number | null = null;
+
+  for (const text of sources) {
+    const se = text.match(SEASON_EPISODE_RE);
+    if (se) {
+      season = season ?? parseInt(se[1], 10);
+      episode = episode ?? parseInt(se[2], 10);
+      continue;
+    }
+    const s = text.match(SEASON_RE);
+    if (s && season === null) season = parseInt(s[1], 10);
+  }
+
+  // Episode sirf button text se — heading ka "E" number galat episode bana deta hai
+  if (episode === null) {
+    const e = name.match(EPISODE_RE);
+    if (e) episode = parseInt(e[1], 10);
+  }
+
+  // "Episode 01-08" → ek episode nahi, pack hai
+  const range = parseReleaseLabel(name).episodes;
+  if (range && range.to > range.from) episode = null;
+
+  const isPack = episode === null && (sources.some((t) => PACK_RE.test(t)) || !!range);
+
+  return {
+    season,
+    episode,
+    isPack,
+    quality: parseQuality(name) || parseQuality(section || ''),
+  };
+}
+
+/** Page series jaisa dikhta hai? (kam se kam 2 episode-style links) */
+export function looksLikeSeries(links: { name: string; section?: string | null }[]): boolean {
+  const episodic = links.filter((l) => parseSeriesLink(l.name, l.section ?? null).episode !== null);
+  return episodic.length >= 2;
+}
+
+/**
+ * Flat links → Season → Episode → quality links.
+ * Season na mile lekin episode mile → Season 1 maan lo (single-season pages).
+ */
+export function buildSeriesStructure(
+  links: { name: string; link: string; section?: string | null; buttonName?: string | null }[]
+): SeriesStructure {
+  const seasons = new Map<number, SeriesSeason>();
+  const unsorted: SeriesLinkRef[] = [];
+
+  const getSeason = (n: number): SeriesSeason => {
+    let s = seasons.get(n);
+    if (!s) {
+      s = { season: n, episodes: [], packs: [] };
+      seasons.set(n, s);
+    }
+    return s;
+  };
+
+  for (const l of links) {
+    const info = parseSeriesLink(l.name, l.section ?? null);
+    const ref: SeriesLinkRef = {
+      name: l.name,
+      link: l.link,
+      quality: info.quality,
+      ...(l.buttonName !== undefined ? { buttonName: l.buttonName } : {}),
+    };
+
+    if (info.episode !== null) {
+      const season = getSeason(info.season ?? 1);
+      let ep = season.episodes.find((e) => e.episode === info.episode);
+      if (!ep) {
+        ep = { episode: info.episode, links: [] };
+        season.episodes.push(ep);
+      }
+      ep.links.push(ref);
+    } else if (info.isPack || info.season !== null) {
+      getSeason(info.season ?? 1).packs.push(ref);
+    } else {
+      unsorted.push(ref);
+    }
+  }
+
+  const QUALITY_ORDER = ['2160p', '1080p', '720p', '480p', '360p'];
+  const qualityRank = (q: string | null) => {
+    const idx = QUALITY_ORDER.indexOf(q || '');
+    return idx === -1 ? QUALITY_ORDER.length : idx;
+  };
+  const sortedSeasons = Array.from(seasons.values())
+    .sort((a, b) => a.season - b.season)
+    .map((s) => ({
+      ...s,
+      episodes: s.episodes
+        .sort((a, b) => a.episode - b.episode)
+        .map((e) => ({ ...e, links: e.links.sort((a, b) => qualityRank(a.quality) - qualityRank(b.quality)) })),
+    }));
+
+  return {
+    seasons: sortedSeasons,
+    unsorted,
+    totalEpisodes: sortedSeasons.reduce((sum, s) => sum + s.episodes.length, 0),
+  };
+}
@@ -0,0 +1,203 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// =============================================================================
+// 📼 SNAPSHOT STORE — Raw HTML / API responses record karo, offline replay karo
+// =============================================================================
+// Modes (SNAPSHOT_MODE env, ya runWithSnapshotMode() se ek request ke liye):
+// - off     : normal network (default)
+// - record  : network + har response disk pe save (URL + timestamp)
+// - replay  : network bilkul nahi — latest (ya `at` se pehle wala) snapshot
+// Layout: <SNAPSHOT_DIR>/<sha1(url)>/<timestamp>-<kind>.json
+// Bug reproduce karna, regression fixtures banana, bina network parser test karna.
+// =============================================================================
+
+export type SnapshotMode = 'off' | 'record' | 'replay';
+
+export type SnapshotKind =
+  | 'page'
+  | 'hblinks'
+  | 'hubdrive'
+  | 'hubcdn'
+  | 'timer-api'
+  | 'hubcloud-api';
+
+export interface SnapshotRecord {
+  url: string;
+  kind: SnapshotKind;
+  recordedAt: string;
+  status: number;
+  /** Page / solver HTML (string) ya API JSON (object) */
+  data: any;
+  finalUrl?: string;
+  via?: string;
+  /**
+   * Live call ne HTTP error throw kiya tha (403 / 404 / 5xx ...) — replay wahi
+   * error dobara throw karta hai. `kind` = typed failure (page fetch chain) ka kind.
+   */
+  error?: { message: string; kind?: string; server?: string };
+}
+
+export class SnapshotMissError extends Error {
+  constructor(public readonly url: string, public readonly kind: SnapshotKind) {
+    super(`📼 No ${kind} snapshot recorded for ${url}`);
+    this.name = 'SnapshotMissError';
+  }
+}
+
+/**
+ * Recorded error response ka replay — axios error jaisa `response` { status, data, headers },
+ * toh classifySolverError / circuit rules live run jaisa hi decide karte hain.
+ */
+export class SnapshotHttpError extends Error {
+  public readonly response: { status: number; data: any; headers: Record<string, string> };
+  public readonly kind: string | null;
+
+  constructor(record: SnapshotRecord) {
+    super(record.error?.message || `HTTP ${record.status}`);
+    this.name = 'SnapshotHttpError';
+    this.response = {
+      status: record.status,
+      data: record.data,
+      headers: record.error?.server ? { server: record.error.server } : {},
+    };
+    this.kind = record.error?.kind ?? null;
+  }
+}
+
+interface SnapshotContext {
+  mode: SnapshotMode;
+  /** Replay: is time (ISO) ya usse pehle ka latest snapshot */
+  at?: string;
+}
+
+const snapshotContext = new AsyncLocalStorage<SnapshotContext>();
+
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || path.join(process.cwd(), '.snapshots');
+
+function envMode(): SnapshotMode {
+  const mode = process.env.SNAPSHOT_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getSnapshotMode(): SnapshotMode {
+  return snapshotContext.getStore()?.mode ?? envMode();
+}
+
+/**
+ * Ek async flow ko given mode mein chalao (baaki requests pe asar nahi).
+ * e.g. runWithSnapshotMode('replay', () => extractMovieLinks(url))
+ */
+export function runWithSnapshotMode<T>(mode: SnapshotMode, fn: () => Promise<T>, options: { at?: string } = {}): Promise<T> {
+  return snapshotContext.run({ mode, at: options.at }, fn);
+}
+
+function urlDir(url: string): string {
+  return path.join(SNAPSHOT_DIR, crypto.createHash('sha1').update(url).digest('hex'));
+}
+
+export async function saveSnapshot(record: Omit<SnapshotRecord, 'recordedAt'>): Promise<void> {
+  const recordedAt = new Date().toISOString();
+  const dir = urlDir(record.url);
+  await fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `${recordedAt.replace(/[:.]/g, '-')}-${record.kind}.json`);
+  await fs.writeFile(file, JSON.stringify({ ...record, recordedAt }, null, 2), 'utf-8');
+}
+
+/** URL ke saare snapshots (naye pehle) — optional kind filter */
+export async function listSnapshots(url: string, kind?: SnapshotKind): Promise<SnapshotRecord[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(urlDir(url));
+  } catch {
+    return [];
+  }
+
+  const records = await Promise.all(
+    files
+      .filter((f) => f.endsWith('.json') && (!kind || f.endsWith(`-${kind}.json`)))
+      .map(async (f) => JSON.parse(await fs.readFile(path.join(urlDir(url), f), 'utf-8')) as SnapshotRecord)
+  );
+  return records.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+}
+
+export async function loadSnapshot(url: string, kind: SnapshotKind, at?: string): Promise<SnapshotRecord | null> {
+  const records = await listSnapshots(url, kind);
+  return records.find((r) => !at || r.recordedAt <= at) || null;
+}
+
+function saveInBackground(record: Omit<SnapshotRecord, 'recordedAt'>): void {
+  saveSnapshot(record).catch((e: any) => console.warn(`[Snapshot] ⚠️ Save failed for ${record.url}: ${e.message}`));
+}
+
+/** Thrown error ka HTTP status — axios (`response.status`) ya SolverFailureError (`httpStatus`) */
+function errorStatus(e: any): number | null {
+  const status = e?.response?.status ?? e?.httpStatus;
+  return typeof status === 'number' ? status : null;
+}
+
+/**
+ * Network call ko snapshot layer se guzaaro.
+ * replay → recorded { status, data } (network nahi), miss → SnapshotMissError;
+ *          recorded error response → SnapshotHttpError (same status + body)
+ * record → live call + save, har status ka (2xx ho ya 403 / 404 / 5xx).
+ *          Save fail ho toh bhi response / error caller tak pahunchta hai.
+ */
+export async function withSnapshot<T extends { status: number; data: any }>(
+  kind: SnapshotKind,
+  url: string,
+  fetcher: () => Promise<T>,
+  extra: { finalUrl?: (result: T) => string; via?: (result: T) => string } = {}
+): Promise<T> {
+  const mode = getSnapshotMode();
+
+  if (mode === 'replay') {
+    const record = await loadSnapshot(url, kind, snapshotContext.getStore()?.at);
+    if (!record) throw new SnapshotMissError(url, kind);
+    if (record.error) throw new SnapshotHttpError(record);
+    return {
+      status: record.status,
+      data: record.data,
+      ...(record.finalUrl ? { finalUrl: record.finalUrl } : {}),
+      ...(record.via ? { via: record.via } : {}),
+    } as unknown as T;
+  }
+
+  let result: T;
+  try {
+    result = await fetcher();
+  } catch (e: any) {
+    const status = errorStatus(e);
+    // Network / timeout errors ka koi response nahi — sirf HTTP errors record hote hain
+    if (mode === 'record' && status !== null) {
+      const server = e?.response?.headers?.server;
+      saveInBackground({
+        url,
+        kind,
+        status,
+        data: e?.response?.data ?? null,
+        error: {
+          message: e?.message || `HTTP ${status}`,
+          ...(typeof e?.kind === 'string' ? { kind: e.kind } : {}),
+          ...(typeof server === 'string' ? { server } : {}),
+        },
+      });
+    }
+    throw e;
+  }
+
+  if (mode === 'record') {
+    saveInBackground({
+      url,
+      kind,
+      status: result.status,
+      data: result.data,
+      ...(extra.finalUrl ? { finalUrl: extra.finalUrl(result) } : {}),
+      ...(extra.via ? { via: extra.via(result) } : {}),
+    });
+  }
+
+  return result;
+}
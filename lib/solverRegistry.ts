@@ -0,0 +1,324 @@
+import {
+  solveHBLinks,
+  solveHubCDN,
+  solveHubDrive,
+  solveHubCloudNative,
+  solveTimerPage,
+  TIMER_PAGE_DOMAINS,
+  type HubCloudButton,
+} from './solvers';
+import { GlobalTimeoutBudget } from './timeout';
+import { RETRY_POLICIES, withRetry } from './retryPolicy';
+import { classifySolverError, type SolverError, type SolverErrorKind } from './solverResult';
+
+// =============================================================================
+// 🧩 SOLVER REGISTRY — Pluggable link resolution
+// =============================================================================
+// Har solver khud batata hai ki:
+// - Kaunse URLs wo handle karta hai (matches)
+// - Kya produce karta hai (intermediate link ya final download link)
+// Resolution engine link ko registry se guzarta hai jab tak final link na mile.
+// Naya host (gdflix, drivehub...) add karna = ek registerSolver() call.
+// =============================================================================
+
+export type LogType = 'info' | 'success' | 'error' | 'warn';
+
+export type SolverOutput = (
+  | { status: 'next'; link: string; source?: string }
+  | { status: 'final'; link: string; buttonName?: string; allButtons?: HubCloudButton[] }
+  | { status: 'error'; message: string; kind: SolverErrorKind }
+) & { httpStatus?: number | null };
+
+/**
+ * Ek hop = ek solver run. Poori chain link ke saath save hoti hai
+ * taaki pata chale exactly kaunsa hop toota.
+ */
+export interface TraceHop {
+  solver: string;
+  input: string;
+  output: string | null;
+  status: 'next' | 'final' | 'error' | 'skipped';
+  httpStatus: number | null;
+  durationMs: number;
+  budgetRemainingMs: number;
+  error?: string;
+  errorKind?: SolverErrorKind;
+  /** Retry hua ho toh attempt number (1-based) */
+  attempt?: number;
+  at: string;
+}
+
+export interface LinkSolver {
+  /** Unique solver id (e.g. 'hblinks') */
+  name: string;
+  /** Log line shown when this solver starts */
+  label: string;
+  /** Log line shown when this solver hands over an intermediate link */
+  successLabel?: string;
+  /** What this solver produces on success */
+  produces: 'intermediate' | 'final';
+  /** Max times this solver may run for a single link (default 1) */
+  maxRuns?: number;
+  /**
+   * Is solver ka output kisi solver se match na ho toh wahi URL isi solver ko
+   * dobara do (maxRuns tak) — timer kabhi kabhi ek aur intermediate page deta hai
+   */
+  rerunsUnmatched?: boolean;
+  matches: (url: string) => boolean;
+  run: (url: string, budget?: GlobalTimeoutBudget) => Promise<SolverOutput>;
+}
+
+export interface ResolveResult {
+  status: 'done' | 'error' | 'timeout';
+  finalLink?: string;
+  buttonName?: string;
+  allButtons?: HubCloudButton[];
+  error?: string;
+  /** Fail hone ka typed reason — UI / routes isi pe branch karte hain */
+  errorKind?: SolverErrorKind;
+  /** true → link-cache se aaya, solvers chale hi nahi */
+  fromCache?: boolean;
+  trace: TraceHop[];
+}
+
+const MAX_HOPS = 8;
+
+function errorOutput(error: SolverError): SolverOutput {
+  return { status: 'error', message: error.message, kind: error.kind, httpStatus: error.httpStatus };
+}
+
+// =============================================================================
+// BUILT-IN SOLVERS (order = priority)
+// =============================================================================
+
+const SOLVER_REGISTRY: LinkSolver[] = [
+  {
+    name: 'hubcdn',
+    label: '⚡ HubCDN Detected! Processing...',
+    produces: 'final',
+    matches: (url) => url.includes('hubcdn.fans'),
+    run: async (url, budget) => {
+      const r = await solveHubCDN(url, budget);
+      if (!r.ok) return errorOutput(r.error);
+      return { status: 'final', link: r.link, httpStatus: r.httpStatus };
+    },
+  },
+  {
+    name: 'timer',
+    label: '⏳ Timer Detected. Calling Timer API...',
+    successLabel: '✅ Timer Bypassed',
+    produces: 'intermediate',
+    maxRuns: 3,
+    rerunsUnmatched: true,
+    matches: (url) => TIMER_PAGE_DOMAINS.some((d) => url.includes(d)),
+    run: async (url, budget) => {
+      const r = await solveTimerPage(url, budget);
+      if (!r.ok) return errorOutput(r.error);
+      return { status: 'next', link: r.link, httpStatus: r.httpStatus };
+    },
+  },
+  {
+    name: 'hblinks',
+    label: '🔗 Solving HBLinks...',
+    successLabel: '✅ HBLinks Solved',
+    produces: 'intermediate',
+    matches: (url) => url.includes('hblinks'),
+    run: async (url, budget) => {
+      const r = await solveHBLinks(url, budget);
+      if (!r.ok) return errorOutput(r.error);
+      return { status: 'next', link: r.link, source: r.source, httpStatus: r.httpStatus };
+    },
+  },
+  {
+    name: 'hubdrive',
+    label: '☁️ Solving HubDrive...',
+    successLabel: '✅ HubDrive Solved',
+    produces: 'intermediate',
+    matches: (url) => url.includes('hubdrive'),
+    run: async (url, budget) => {
+      const r = await solveHubDrive(url, budget);
+      if (!r.ok) return errorOutput(r.error);
+      return { status: 'next', link: r.link, httpStatus: r.httpStatus };
+    },
+  },
+  {
+    name: 'hubcloud',
+    label: '⚡ Getting Direct Link (HubCloud)...',
+    produces: 'final',
+    matches: (url) => url.includes('hubcloud') || url.includes('hubcdn'),
+    run: async (url, budget) => {
+      const r = await solveHubCloudNative(url, budget);
+      if (!r.ok) return errorOutput(r.error);
+      return {
+        status: 'final',
+        link: r.link,
+        buttonName: r.buttonName ?? undefined,
+        allButtons: r.allButtons,
+        httpStatus: r.httpStatus,
+      };
+    },
+  },
+];
+
+/**
+ * Naya solver register karo.
+ * `before` diya ho toh us solver se pehle insert hoga (priority ke liye),
+ * warna registry ke end mein. Same name wala solver replace ho jata hai.
+ */
+export function registerSolver(solver: LinkSolver, options: { before?: string } = {}): void {
+  const existing = SOLVER_REGISTRY.findIndex((s) => s.name === solver.name);
+  if (existing !== -1) SOLVER_REGISTRY.splice(existing, 1);
+
+  const beforeIdx = options.before
+    ? SOLVER_REGISTRY.findIndex((s) => s.name === options.before)
+    : -1;
+
+  if (beforeIdx === -1) SOLVER_REGISTRY.push(solver);
+  else SOLVER_REGISTRY.splice(beforeIdx, 0, solver);
+}
+
+export function getRegisteredSolvers(): readonly LinkSolver[] {
+  return SOLVER_REGISTRY;
+}
+
+/**
+ * URL ke liye solver. `previous` (pichle hop ka solver) diya ho aur koi match
+ * na kare toh rerunsUnmatched wala previous solver hi dobara.
+ */
+export function findSolver(url: string, previous?: LinkSolver): LinkSolver | undefined {
+  const solver = SOLVER_REGISTRY.find((s) => s.matches(url));
+  if (solver) return solver;
+  return previous?.rerunsUnmatched ? previous : undefined;
+}
+
+// =============================================================================
+// RESOLUTION ENGINE — WITH SMART TIMEOUT
+// =============================================================================
+
+/**
+ * Ek link ko registry ke through walk karo jab tak final link na mile.
+ * Har hop ka trace record hota hai (input, solver, output, HTTP status, time, budget).
+ * ✅ SMART TIMEOUT: har hop se pehle budget check, budget har solver ko pass hota hai
+ */
+export async function resolveLink(
+  originalLink: string,
+  options: {
+    budget: GlobalTimeoutBudget;
+    onLog?: (msg: string, type: LogType) => void;
+  }
+): Promise<ResolveResult> {
+  const { budget } = options;
+  const log = options.onLog || (() => {});
+  const runCounts: Record<string, number> = {};
+  const trace: TraceHop[] = [];
+  let currentLink = originalLink;
+  let previous: LinkSolver | undefined;
+
+  const pushHop = (hop: Omit<TraceHop, 'budgetRemainingMs' | 'at'>) => {
+    trace.push({ ...hop, budgetRemainingMs: budget.remaining, at: new Date().toISOString() });
+  };
+
+  try {
+    for (let hop = 0; hop < MAX_HOPS; hop++) {
+      const solver = findSolver(currentLink, previous);
+      if (!solver) {
+        pushHop({
+          solver: 'none', input: currentLink, output: null, status: 'error',
+          httpStatus: null, durationMs: 0, error: 'Unrecognized link format',
+        });
+        return { status: 'error', error: 'Unrecognized link format', errorKind: 'not_found', trace };
+      }
+
+      runCounts[solver.name] = (runCounts[solver.name] || 0) + 1;
+      if (runCounts[solver.name] > (solver.maxRuns ?? 1)) {
+        const error = `Stuck in ${solver.name} loop`;
+        pushHop({
+          solver: solver.name, input: currentLink, output: null, status: 'skipped',
+          httpStatus: null, durationMs: 0, error,
+        });
+        return { status: 'error', error, errorKind: 'unknown', trace };
+      }
+
+      if (budget.isExpired) {
+        const error = `⏱️ Budget expired before ${solver.name}`;
+        log(error, 'warn');
+        pushHop({
+          solver: solver.name, input: currentLink, output: null, status: 'skipped',
+          httpStatus: null, durationMs: 0, error, errorKind: 'budget_expired',
+        });
+        return { status: 'timeout', error, errorKind: 'budget_expired', trace };
+      }
+
+      if (solver === previous && !solver.matches(currentLink)) {
+        log(`🔄 Bypassing intermediate page: ${currentLink}`, 'warn');
+      }
+      log(`${solver.label} ${budget.getStatus()}`, solver.name === 'timer' ? 'warn' : 'info');
+
+      // 🔁 Timeout / 5xx pe same hop dobara (backoff); not_found / markup_changed pe nahi
+      let attempt = 0;
+      let durationMs = 0;
+      const out = await withRetry(
+        async (n) => {
+          attempt = n;
+          const startedAt = Date.now();
+          const result = await solver.run(currentLink, budget);
+          durationMs = Date.now() - startedAt;
+          return result;
+        },
+        {
+          policy: RETRY_POLICIES.solver,
+          classify: (r) => (r.status === 'error' ? { kind: r.kind, httpStatus: r.httpStatus, message: r.message } : null),
+          remainingMs: () => budget.remaining,
+          onRetry: ({ attempt: n, delayMs, error }) => {
+            log(`🔁 ${solver.name} failed (${error.kind}) — retrying in ${(delayMs / 1000).toFixed(1)}s`, 'warn');
+            pushHop({
+              solver: solver.name, input: currentLink, output: null, status: 'error',
+              httpStatus: error.httpStatus ?? null, durationMs, error: error.message, errorKind: error.kind, attempt: n,
+            });
+          },
+        }
+      );
+      const retried = attempt > 1 ? { attempt } : {};
+
+      if (out.status === 'error') {
+        log(`❌ ${solver.name} Error: ${out.message}`, 'error');
+        pushHop({
+          solver: solver.name, input: currentLink, output: null, status: 'error',
+          httpStatus: out.httpStatus ?? null, durationMs, error: out.message, errorKind: out.kind, ...retried,
+        });
+        // Budget beech mein khatam → timeout (queue checkpoint se resume karega)
+        return {
+          status: out.kind === 'budget_expired' ? 'timeout' : 'error',
+          error: out.message,
+          errorKind: out.kind,
+          trace,
+        };
+      }
+
+      pushHop({
+        solver: solver.name, input: currentLink, output: out.link, status: out.status,
+        httpStatus: out.httpStatus ?? null, durationMs, ...retried,
+      });
+
+      if (out.status === 'final') {
+        log(`🎉 COMPLETED via ${out.buttonName || solver.name}`, 'success');
+        return {
+          status: 'done',
+          finalLink: out.link,
+          buttonName: out.buttonName,
+          allButtons: out.allButtons,
+          trace,
+        };
+      }
+
+      currentLink = out.link;
+      previous = solver;
+      log(solver.successLabel || `✅ ${solver.name} Solved`, 'success');
+      log(`🔗 Next: ${currentLink}`, 'info');
+    }
+
+    return { status: 'error', error: `Too many hops (>${MAX_HOPS})`, errorKind: 'unknown', trace };
+  } catch (e: any) {
+    return { status: 'error', error: e.message, errorKind: classifySolverError(e, { budget }).kind, trace };
+  }
+}
@@ -0,0 +1,108 @@
+import { CircuitOpenError } from './circuitBreaker';
+import { SnapshotHttpError, SnapshotMissError } from './snapshotStore';
+import type { GlobalTimeoutBudget } from './timeout';
+
+// =============================================================================
+// 🧾 SOLVER RESULT — Har solver ka ek hi shape
+// =============================================================================
+// Pehle har solver apna format deta tha (link / final_link / best_download_link,
+// success|fail|failed|error). Ab sab SolverResult return karte hain:
+//   { ok: true,  link, httpStatus, ...extra }
+//   { ok: false, error: { kind, message, httpStatus } }
+// Routes / UI error.kind pe branch karte hain — message strings match nahi karte.
+// =============================================================================
+
+export type SolverErrorKind =
+  | 'timeout'         // Request apne API timeout se zyada chali
+  | 'budget_expired'  // Global / per-link budget khatam
+  | 'blocked'         // Cloudflare / 403 / 429 — proxy chahiye
+  | 'not_found'       // Page / file nahi mila (404, DNS, snapshot miss)
+  | 'markup_changed'  // Page khula lekin expected link / selector nahi mila
+  | 'backend_down'    // Python service (5000 / 5001 / 10000) ya circuit open
+  | 'unknown';
+
+export interface SolverError {
+  kind: SolverErrorKind;
+  message: string;
+  httpStatus: number | null;
+}
+
+export type SolverResult<Extra extends object = object> =
+  | ({ ok: true; link: string; httpStatus: number | null } & Extra)
+  | { ok: false; error: SolverError };
+
+export function solved<Extra extends object = object>(
+  link: string,
+  httpStatus: number | null,
+  extra?: Extra
+): SolverResult<Extra> {
+  return { ok: true, link, httpStatus, ...(extra as Extra) };
+}
+
+export function failed(kind: SolverErrorKind, message: string, httpStatus: number | null = null): SolverResult<never> {
+  return { ok: false, error: { kind, message, httpStatus } };
+}
+
+/** Throw karne layak typed failure — classifySolverError iska kind as-is rakhta hai */
+export class SolverFailureError extends Error {
+  constructor(
+    public readonly kind: SolverErrorKind,
+    message: string,
+    public readonly httpStatus: number | null = null
+  ) {
+    super(message);
+    this.name = 'SolverFailureError';
+  }
+}
+
+const CLOUDFLARE_MARKERS = ['cf-challenge', 'Just a moment...', 'Checking your browser', 'Cloudflare'];
+const NETWORK_DOWN_CODES = ['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'EPIPE'];
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ERR_CANCELED'];
+
+/**
+ * Thrown error (axios / fetch / circuit / snapshot) → SolverError.
+ * `backend` = call kisi local Python service ko thi (connection refused → backend_down).
+ */
+export function classifySolverError(
+  e: any,
+  options: { budget?: GlobalTimeoutBudget; backend?: boolean } = {}
+): SolverError {
+  const message: string = e?.message || String(e);
+  const httpStatus: number | null = e?.response?.status ?? null;
+  const code: string | undefined = e?.code || e?.cause?.code;
+  const error = (kind: SolverErrorKind): SolverError => ({ kind, message, httpStatus });
+
+  if (e instanceof SolverFailureError) return { kind: e.kind, message, httpStatus: e.httpStatus };
+  if (e instanceof CircuitOpenError) return error('backend_down');
+  if (e instanceof SnapshotMissError) return error('not_found');
+  if (e instanceof SnapshotHttpError && e.kind) return { kind: e.kind as SolverErrorKind, message, httpStatus };
+  if (options.budget?.isExpired || /budget expired/i.test(message)) return error('budget_expired');
+
+  if (
+    (code && TIMEOUT_CODES.includes(code)) ||
+    e?.name === 'AbortError' ||
+    e?.name === 'CanceledError' ||
+    /timeout|timed out/i.test(message)
+  ) {
+    return error('timeout');
+  }
+
+  if (httpStatus === 403 || httpStatus === 429 || CLOUDFLARE_MARKERS.some((m) => message.includes(m))) {
+    return error('blocked');
+  }
+  if (httpStatus === 404 || httpStatus === 410 || code === 'ENOTFOUND') return error('not_found');
+
+  if (options.backend && ((code && NETWORK_DOWN_CODES.includes(code)) || (httpStatus !== null && httpStatus >= 500))) {
+    return error('backend_down');
+  }
+  if (httpStatus === 503 && /cloudflare/i.test(String(e?.response?.headers?.server || ''))) return error('blocked');
+
+  return error('unknown');
+}
+
+/** Non-200 page response ka kind (503 unknown → retry policy 5xx ko retry karti hai) */
+export function kindForHttpStatus(status: number): SolverErrorKind {
+  if (status === 403 || status === 429) return 'blocked';
+  if (status === 404 || status === 410) return 'not_found';
+  return 'unknown';
+}
@@ -1,11 +1,34 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import {
-  API_TIMEOUTS,
   GlobalTimeoutBudget,
+  adaptiveTimeout,
   safeFetch,
   getAxiosConfig,
+  trackLatency,
 } from './timeout';
+import { SOLVER_BACKENDS, hostKey, withCircuit } from './circuitBreaker';
+import { buildSeriesStructure, hasSeasonMarker, looksLikeSeries, type SeriesStructure } from './seriesParser';
+import {
+  mergeQualityMetadata,
+  parseReleaseLabel,
+  summarizeQuality,
+  toLinkQuality,
+  type LinkQuality,
+  type ReleaseInfo,
+} from './releaseParser';
+import { DEFAULT_SOURCE_ADAPTER, getSourceAdapter, type SourceAdapter } from './sources';
+import { getSnapshotMode, withSnapshot } from './snapshotStore';
+import {
+  classifySolverError,
+  failed,
+  kindForHttpStatus,
+  solved,
+  SolverFailureError,
+  type SolverErrorKind,
+  type SolverResult,
+} from './solverResult';
+import { CLOUDFLARE_MARKERS, fetchWithStrategies } from './fetchStrategies';
 
 // =============================================================================
 // BROWSER-LIKE HEADERS
@@ -35,93 +58,58 @@ const MOBILE_HEADERS = {
   "Upgrade-Insecure-Requests": "1",
 };
 
+// =============================================================================
+// CIRCUIT BREAKER FAILURE RULES
+// =============================================================================
+
+/** Target host ki galti: network error, 5xx, ya block (403 / 429). 404 nahi. */
+const isHostFailure = (e: any): boolean => {
+  const status = e?.response?.status;
+  return !status || status >= 500 || status === 403 || status === 429;
+};
+
+/** Local backend ki galti: connection / timeout error ya 5xx */
+const isBackendFailure = (e: any): boolean => {
+  const status = e?.response?.status;
+  return !status || status >= 500;
+};
+
 // =============================================================================
 // CLOUDFLARE-SAFE PAGE FETCHER — WITH SMART TIMEOUT
 // =============================================================================
 
 /**
- * Fetches HTML through the Python cloudscraper proxy (port 5001).
- * Falls back to direct fetch if proxy is unavailable.
+ * Fetches HTML through the fetch-strategy chain (lib/fetchStrategies.ts):
+ * cloudscraper proxy (port 5001) → direct fetch, plus optional alt proxy /
+ * FlareSolverr. Domain pe jo strategy last time chali wo pehle try hoti hai.
  * 
  * ✅ SMART TIMEOUT: 
- *   - Proxy: max 20s (fast response → turant aage)
- *   - Direct: max 12s
+ *   - Har strategy ka apna adaptive timeout (proxy 20s, direct 12s ceiling)
  *   - Global budget aware
+ *   - Circuit breaker: proxy down ho toh turant agli strategy
  */
 async function fetchPageHTML(
   url: string,
   budget?: GlobalTimeoutBudget
-): Promise<{ html: string; finalUrl: string }> {
-  const PROXY_URL = "http://127.0.0.1:5001/fetch";
-
-  // ========== PLAN A: Cloudscraper proxy ==========
-  try {
-    if (budget?.isExpired) throw new Error('Budget expired, skipping proxy');
-
-    console.log(`[Fetcher] 🔄 Trying proxy for: ${url} ${budget?.getStatus() || ''}`);
-
-    const proxyResp = await safeFetch(
-      `${PROXY_URL}?url=${encodeURIComponent(url)}`,
-      { timeoutMs: API_TIMEOUTS.PROXY_FETCH },
-      budget
-    );
-    const data = await proxyResp.json();
-
-    if (data.status === "success" && data.html) {
-      console.log(`[Fetcher] ✅ Proxy success for: ${url} (HTTP ${data.status_code}, ${data.content_length} chars)`);
-
-      if (data.status_code === 403 || data.status_code === 503) {
-        console.log(`[Fetcher] ⚠️ Proxy got HTTP ${data.status_code} — still blocked`);
-        throw new Error(`Blocked with HTTP ${data.status_code}`);
-      }
-
-      const cfMarkers = ['cf-challenge', 'Just a moment...', 'Checking your browser', 'cf-turnstile'];
-      if (cfMarkers.some(marker => data.html.includes(marker))) {
-        console.log(`[Fetcher] ⚠️ Cloudflare challenge detected in response HTML`);
-        throw new Error('Cloudflare challenge page received');
-      }
-
-      return { html: data.html, finalUrl: data.url || url };
-    }
-
-    throw new Error(data.message || "Proxy returned non-success");
-  } catch (proxyErr: any) {
-    console.warn(`[Fetcher] ⚠️ Proxy failed: ${proxyErr.message}. Trying direct fetch...`);
-  }
-
-  // ========== PLAN B: Direct fetch ==========
-  if (budget?.isExpired) {
-    throw new Error('⏱️ Budget expired before direct fetch attempt');
-  }
-
-  const HEADERS = {
-    "User-Agent": "Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36",
-    "Referer": "https://www.google.com/",
-    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-    "Accept-Language": "en-US,en;q=0.9,hi;q=0.8",
-  };
-
-  const response = await safeFetch(
+): Promise<{ html: string; finalUrl: string; via: string }> {
+  // 📼 Snapshot layer: record mode mein save, replay mode mein network hi nahi
+  const page = await withSnapshot(
+    'page',
     url,
-    { headers: HEADERS, timeoutMs: API_TIMEOUTS.DIRECT_FETCH },
-    budget
+    async () => {
+      const live = await fetchWithStrategies(url, budget);
+      return { status: 200, data: live.html, finalUrl: live.finalUrl, via: live.via };
+    },
+    { finalUrl: (r) => r.finalUrl, via: (r) => r.via }
   );
-
-  if (!response.ok) {
-    throw new Error(`Direct fetch failed: HTTP ${response.status} ${response.statusText}`);
-  }
-
-  const html = await response.text();
-
-  const cfMarkers = ['cf-challenge', 'Just a moment...', 'Checking your browser'];
-  if (cfMarkers.some(marker => html.includes(marker))) {
-    throw new Error('Cloudflare challenge on direct fetch — proxy needed but unavailable');
-  }
-
-  console.log(`[Fetcher] ✅ Direct fetch success for: ${url} (${html.length} chars)`);
-  return { html, finalUrl: url };
+  return {
+    html: page.data,
+    finalUrl: page.finalUrl || url,
+    via: getSnapshotMode() === 'replay' ? 'snapshot' : page.via,
+  };
 }
 
+
 // =============================================================================
 // HBLINKS SOLVER — WITH SMART TIMEOUT
 // =============================================================================
@@ -130,23 +118,26 @@ async function fetchPageHTML(
  * ✅ SMART TIMEOUT: max 10s via axios timeout + AbortController
  * Fast response → turant done, slow → abort at 10s
  */
-export async function solveHBLinks(url: string, budget?: GlobalTimeoutBudget) {
+export async function solveHBLinks(
+  url: string,
+  budget?: GlobalTimeoutBudget
+): Promise<SolverResult<{ source: string }>> {
   try {
     if (budget?.isExpired) {
-      return { status: "error", message: "⏱️ Budget expired before HBLinks" };
+      return failed('budget_expired', "⏱️ Budget expired before HBLinks");
     }
 
-    const axiosConfig = getAxiosConfig(API_TIMEOUTS.HBLINKS, budget, { headers: BROWSER_HEADERS });
+    const axiosConfig = getAxiosConfig(adaptiveTimeout('HBLINKS'), budget, { headers: BROWSER_HEADERS });
 
     try {
-      const response = await axios.get(url, {
+      const response = await withSnapshot('hblinks', url, () => withCircuit(hostKey(url), () => trackLatency('HBLINKS', () => axios.get(url, {
         headers: BROWSER_HEADERS,
         timeout: axiosConfig.timeout,
         signal: axiosConfig.signal,
-      });
+      })), isHostFailure));
 
       if (response.status !== 200) {
-        return { status: "fail", message: `Cannot open page. Status: ${response.status}` };
+        return failed(kindForHttpStatus(response.status), `Cannot open page. Status: ${response.status}`, response.status);
       }
 
       const $ = cheerio.load(response.data);
@@ -155,7 +146,7 @@ export async function solveHBLinks(url: string, budget?: GlobalTimeoutBudget) {
       for (const tld of HUBCLOUD_TLDS) {
         const found = $(`a[href*="hubcloud${tld}"]`).attr('href');
         if (found) {
-          return { status: "success", link: found, source: `HubCloud${tld} (Priority 1)` };
+          return solved(found, response.status, { source: `HubCloud${tld} (Priority 1)` });
         }
       }
 
@@ -163,22 +154,22 @@ export async function solveHBLinks(url: string, budget?: GlobalTimeoutBudget) {
       for (const tld of HUBDRIVE_TLDS) {
         const found = $(`a[href*="hubdrive${tld}"]`).attr('href');
         if (found) {
-          return { status: "success", link: found, source: `HubDrive${tld} (Priority 2)` };
+          return solved(found, response.status, { source: `HubDrive${tld} (Priority 2)` });
         }
       }
 
       const genericHub = $('a[href*="hubcloud"], a[href*="hubdrive"]').first().attr('href');
       if (genericHub) {
-        return { status: "success", link: genericHub, source: "HubCloud/HubDrive (Generic)" };
+        return solved(genericHub, response.status, { source: "HubCloud/HubDrive (Generic)" });
       }
           
-      return { status: "fail", message: "Not Found" };
+      return failed('markup_changed', "No HubCloud / HubDrive link on HBLinks page", response.status);
     } finally {
       clearTimeout(axiosConfig._cleanupTimer);
     }
 
   } catch (e: any) {
-    return { status: "error", message: e.message };
+    return { ok: false, error: classifySolverError(e, { budget }) };
   }
 }
 
@@ -205,7 +196,8 @@ const JUNK_LINK_EXACT_TEXTS = [
   "hevc",
 ];
 
-function isJunkLink(text: string): boolean {
+/** Button / heading text junk hai? (telegram, how-to, akela "4K" / "SDR" badge) */
+export function isJunkLink(text: string): boolean {
   const lower = text.toLowerCase().trim();
   if (JUNK_LINK_TEXTS.some(junk => lower.includes(junk))) return true;
   if (JUNK_LINK_EXACT_TEXTS.some(junk => lower === junk)) return true;
@@ -216,25 +208,29 @@ function isJunkLink(text: string): boolean {
 // MOVIE PREVIEW EXTRACTOR
 // =============================================================================
 
-export function extractMoviePreview(html: string): { title: string; posterUrl: string | null } {
+export function extractMoviePreview(
+  html: string,
+  adapter: SourceAdapter = DEFAULT_SOURCE_ADAPTER
+): { title: string; posterUrl: string | null } {
   const $ = cheerio.load(html);
+  const sel = adapter.selectors;
 
   let title = '';
-  const h1 = $('h1.entry-title, h1.post-title, h1').first().text().trim();
+  const h1 = $(sel.title).first().text().trim();
   if (h1) {
     title = h1;
   } else {
     const ogTitle = $('meta[property="og:title"]').attr('content') || '';
     title = ogTitle || $('title').text().trim() || 'Unknown Movie';
   }
-  title = title.replace(/\s*[-\u2013|].*?(HDHub|HdHub|hdhub|Download|Free).*$/i, '').trim();
+  title = title.replace(sel.titleCleanup, '').trim();
 
   let posterUrl: string | null = null;
   const ogImage = $('meta[property="og:image"]').attr('content');
   if (ogImage && !ogImage.includes('logo') && !ogImage.includes('favicon')) {
     posterUrl = ogImage;
   } else {
-    const contentImg = $('.entry-content img, .post-content img, main img').first().attr('src');
+    const contentImg = $(sel.posterFallback).first().attr('src');
     if (contentImg && !contentImg.includes('logo') && !contentImg.includes('icon')) {
       posterUrl = contentImg;
     }
@@ -243,83 +239,244 @@ export function extractMoviePreview(html: string): { title: string; posterUrl: s
   return { title, posterUrl };
 }
 
+// =============================================================================
+// SECTION HEADING (Season context for series pages)
+// =============================================================================
+
+/**
+ * Link ke upar wali sabse nazdeek heading jisme season / pack ka zikr ho.
+ * Series pages pe "Season 2 [720p]" heading ke neeche "Episode 1" buttons hote hain.
+ */
+function findSectionHeading($: cheerio.CheerioAPI, $a: ReturnType<cheerio.CheerioAPI>): string | null {
+  const $block = $a.closest('p, div, h2, h3, h4, h5').first();
+  if ($block.length === 0) return null;
+
+  let section: string | null = null;
+  $block.prevAll('h2, h3, h4, h5').each((_i: number, heading: any) => {
+    const text = $(heading).text().trim();
+    if (text && hasSeasonMarker(text)) {
+      section = text.substring(0, 120);
+      return false;
+    }
+  });
+  return section;
+}
+
 // =============================================================================
 // MAIN LINK EXTRACTOR — WITH SMART TIMEOUT
 // =============================================================================
 
-export async function extractMovieLinks(url: string, budget?: GlobalTimeoutBudget) {
-  const JUNK_DOMAINS = [
-    "catimages", "imdb.com", "googleusercontent", "instagram.com",
-    "facebook.com", "wp-content", "wpshopmart"
-  ];
+export type AnchorRejectReason =
+  | 'empty_href'
+  | 'fragment_link'
+  | 'junk_domain'
+  | 'junk_text'
+  | 'junk_parent_text'
+  | 'no_target_domain'
+  | 'duplicate'
+  | 'junk_name';
+
+/**
+ * Diagnostics mode ka structured report — layout badle toh redeploy + console.log
+ * ki jagah yahi dekho: kaunse selectors mile, har anchor kyun reject hua.
+ */
+export interface ExtractionDiagnostics {
+  adapter: string;
+  /** Fetch strategy name (proxy / direct / flaresolverr ...) ya 'snapshot' */
+  fetchedVia: string | null;
+  finalUrl: string | null;
+  pageTitle: string | null;
+  htmlLength: number;
+  cloudflareDetected: boolean;
+  fetchError: string | null;
+  selectors: { name: string; selector: string; matched: number }[];
+  downloadHeadingFound: boolean;
+  totalAnchors: number;
+  anchors: { href: string; text: string; accepted: boolean; reason: AnchorRejectReason | null }[];
+  html?: string;
+}
+
+export interface ExtractedLink {
+  name: string;
+  link: string;
+  section: string | null;
+  release: ReleaseInfo;
+  quality: LinkQuality | null;
+}
+
+export interface ExtractMovieLinksResult {
+  status: string;
+  message?: string;
+  /** Fail hone ka typed reason (retry policy isi pe decide karti hai) */
+  errorKind?: SolverErrorKind;
+  total?: number;
+  links?: ExtractedLink[];
+  metadata?: ReturnType<typeof extractMovieMetadata> & { resolutions: string[] };
+  preview?: { title: string; posterUrl: string | null };
+  source?: string;
+  series?: SeriesStructure | null;
+  diagnostics?: ExtractionDiagnostics;
+}
+
+const MAX_DIAGNOSTIC_HTML = 500_000;
+
+export async function extractMovieLinks(
+  url: string,
+  budget?: GlobalTimeoutBudget,
+  options: { diagnostics?: boolean; includeHtml?: boolean } = {}
+): Promise<ExtractMovieLinksResult> {
+  // 🌐 Hostname se site adapter (selectors, link domains) — default HDHub
+  const adapter = getSourceAdapter(url);
+  const JUNK_DOMAINS = adapter.junkDomains;
+
+  // 🩻 Diagnostics mode: har decision record hota hai
+  const diagnostics: ExtractionDiagnostics | null = options.diagnostics
+    ? {
+        adapter: adapter.name,
+        fetchedVia: null,
+        finalUrl: null,
+        pageTitle: null,
+        htmlLength: 0,
+        cloudflareDetected: false,
+        fetchError: null,
+        selectors: [],
+        downloadHeadingFound: false,
+        totalAnchors: 0,
+        anchors: [],
+      }
+    : null;
 
   try {
     if (budget?.isExpired) {
-      return { status: "error", message: "⏱️ Budget expired before page extraction" };
+      return {
+        status: "error",
+        message: "⏱️ Budget expired before page extraction",
+        errorKind: 'budget_expired',
+        diagnostics: diagnostics ?? undefined,
+      };
     }
 
-    const { html } = await fetchPageHTML(url, budget);
+    let page: Awaited<ReturnType<typeof fetchPageHTML>>;
+    try {
+      page = await fetchPageHTML(url, budget);
+    } catch (fetchErr: any) {
+      if (diagnostics) {
+        diagnostics.fetchError = fetchErr.message;
+        diagnostics.cloudflareDetected = /cloudflare/i.test(fetchErr.message);
+      }
+      throw fetchErr;
+    }
+    const { html } = page;
     const $ = cheerio.load(html);
 
-    const foundLinks: { name: string; link: string }[] = [];
-    const metadata = extractMovieMetadata(html);
-    const preview = extractMoviePreview(html);
+    const foundLinks: ExtractedLink[] = [];
+    const pageMetadata = extractMovieMetadata(html, adapter);
+    const preview = extractMoviePreview(html, adapter);
 
     const pageTitle = $('title').text().trim();
-    const hasEntryContent = $('.entry-content').length > 0;
+    const hasEntryContent = adapter.selectors.contentRoots.some((root) => $(root).length > 0);
     const totalAnchors = $('a').length;
 
-    console.log(`[extractMovieLinks] Page title: "${pageTitle}"`);
-    console.log(`[extractMovieLinks] .entry-content found: ${hasEntryContent}, Total <a>: ${totalAnchors}`);
+    console.log(`[extractMovieLinks] Source adapter: ${adapter.name} | Page title: "${pageTitle}"`);
+    console.log(`[extractMovieLinks] Content root found: ${hasEntryContent}, Total <a>: ${totalAnchors}`);
+
+    if (diagnostics) {
+      const sel = adapter.selectors;
+      diagnostics.fetchedVia = page.via;
+      diagnostics.finalUrl = page.finalUrl;
+      diagnostics.pageTitle = pageTitle;
+      diagnostics.htmlLength = html.length;
+      diagnostics.cloudflareDetected = CLOUDFLARE_MARKERS.some((marker) => html.includes(marker));
+      diagnostics.totalAnchors = totalAnchors;
+      diagnostics.selectors = [
+        { name: 'title', selector: sel.title, matched: $(sel.title).length },
+        { name: 'posterFallback', selector: sel.posterFallback, matched: $(sel.posterFallback).length },
+        { name: 'linkAnchors', selector: sel.linkAnchors, matched: $(sel.linkAnchors).length },
+        ...sel.contentRoots.map((root) => ({ name: 'contentRoot', selector: root, matched: $(root).length })),
+      ];
+      diagnostics.downloadHeadingFound = $('h2, h3, h4')
+        .toArray()
+        .some((h) => sel.downloadHeading.test($(h).text()));
+      if (options.includeHtml) diagnostics.html = html.substring(0, MAX_DIAGNOSTIC_HTML);
+    }
+
+    const recordAnchor = (href: string, text: string, reason: AnchorRejectReason | null) => {
+      diagnostics?.anchors.push({ href, text: text.substring(0, 120), accepted: reason === null, reason });
+    };
 
-    $('.entry-content a[href], main a[href]').each((_idx: number, el: any) => {
+    $(adapter.selectors.linkAnchors).each((_idx: number, el: any) => {
       const $a = $(el);
       const link = $a.attr('href') || '';
       const text = $a.text().trim();
       
-      if (!link || link.startsWith('#') || JUNK_DOMAINS.some(junk => link.includes(junk))) return;
-      if (isJunkLink(text)) return;
+      if (!link) return recordAnchor(link, text, 'empty_href');
+      if (link.startsWith('#')) return recordAnchor(link, text, 'fragment_link');
+      if (JUNK_DOMAINS.some(junk => link.includes(junk))) return recordAnchor(link, text, 'junk_domain');
+      if (isJunkLink(text)) return recordAnchor(link, text, 'junk_text');
       
       const $parent = $a.closest('p, div, h3, h4');
       const parentText = $parent.text().trim();
-      if (isJunkLink(parentText)) return;
+      if (isJunkLink(parentText)) return recordAnchor(link, text, 'junk_parent_text');
       
-      const isTargetDomain = ["hblinks", "hubdrive", "hubcdn", "hubcloud", "gdflix", "drivehub"].some(d => link.includes(d));
+      const isTargetDomain = adapter.linkDomains.some(d => link.includes(d));
       const isDownloadText = ["DOWNLOAD", "720P", "480P", "1080P", "4K", "DIRECT", "GDRIVE"].some(t => text.toUpperCase().includes(t));
 
-      if (isTargetDomain || isDownloadText) {
-        if (!foundLinks.some(x => x.link === link)) {
-          let cleanName = text.replace(/\u26A1/g, "").trim();
-          if (!cleanName || cleanName.length < 2) {
-            const parent = $a.closest('p, div, h3, h4');
-            const prev = parent.prev('h3, h4, h5, strong');
-            cleanName = prev.text().trim() || parent.text().trim() || "Download Link";
-          }
-          
-          if (!isJunkLink(cleanName)) {
-            foundLinks.push({ name: cleanName.substring(0, 50), link: link });
-          }
-        }
+      if (!isTargetDomain && !isDownloadText) return recordAnchor(link, text, 'no_target_domain');
+      if (foundLinks.some(x => x.link === link)) return recordAnchor(link, text, 'duplicate');
+
+      let cleanName = text.replace(/\u26A1/g, "").trim();
+      if (!cleanName || cleanName.length < 2) {
+        const parent = $a.closest('p, div, h3, h4');
+        const prev = parent.prev('h3, h4, h5, strong');
+        cleanName = prev.text().trim() || parent.text().trim() || "Download Link";
       }
+      
+      if (isJunkLink(cleanName)) return recordAnchor(link, text, 'junk_name');
+
+      const section = findSectionHeading($, $a);
+      const release = parseReleaseLabel(cleanName, section);
+      foundLinks.push({
+        name: cleanName.substring(0, 50),
+        link: link,
+        section,
+        // 🏷️ Full (untruncated) label se structured fields
+        release,
+        quality: toLinkQuality(release),
+      });
+      recordAnchor(link, text, null);
     });
 
     if (foundLinks.length === 0) {
       return { 
         status: "error", 
-        message: `No links found. Page title: "${pageTitle}". entry-content: ${hasEntryContent}. Total anchors: ${totalAnchors}. The page structure might have changed or site is blocking.`
+        message: `No links found. Page title: "${pageTitle}". Source: ${adapter.name}. Content root: ${hasEntryContent}. Total anchors: ${totalAnchors}. The page structure might have changed or site is blocking.`,
+        errorKind: 'markup_changed',
+        diagnostics: diagnostics ?? undefined,
       };
     }
 
+    // 🎚️ Page-level quality / audio = per-link values ka summary (sirf pehla match nahi)
+    const metadata = mergeQualityMetadata(pageMetadata, summarizeQuality(foundLinks.map((l) => l.release)));
+
     return { 
       status: "success", 
       total: foundLinks.length, 
       links: foundLinks, 
       metadata,
-      preview
+      preview,
+      source: adapter.name,
+      // 📺 Series page → Season / Episode grouping
+      series: looksLikeSeries(foundLinks) ? buildSeriesStructure(foundLinks) : null,
+      diagnostics: diagnostics ?? undefined,
     };
 
   } catch (e: any) {
-    return { status: "error", message: e.message };
+    return {
+      status: "error",
+      message: e.message,
+      errorKind: classifySolverError(e, { budget }).kind,
+      diagnostics: diagnostics ?? undefined,
+    };
   }
 }
 
@@ -327,12 +484,13 @@ export async function extractMovieLinks(url: string, budget?: GlobalTimeoutBudge
 // MOVIE METADATA EXTRACTOR
 // =============================================================================
 
-export function extractMovieMetadata(html: string): {
+export function extractMovieMetadata(html: string, adapter: SourceAdapter = DEFAULT_SOURCE_ADAPTER): {
   quality: string;
   languages: string;
   audioLabel: string;
 } {
   const $ = cheerio.load(html);
+  const sel = adapter.selectors;
 
   const validLangs = [
     'Hindi', 'English', 'Tamil', 'Telugu', 'Malayalam',
@@ -347,14 +505,18 @@ export function extractMovieMetadata(html: string): {
     'WEB-DL': 5, 'BluRay': 4, 'WEBRip': 3, 'HEVC': 2, 'x264': 1, 'HDTC': 0, '10Bit': 0
   };
 
-  let $mainContent: any = $('main.page-body');
-  if ($mainContent.length === 0) $mainContent = $('div.entry-content');
-  if ($mainContent.length === 0) $mainContent = $.root();
+  let $mainContent: any = $.root();
+  for (const root of sel.contentRoots) {
+    if ($(root).length > 0) {
+      $mainContent = $(root);
+      break;
+    }
+  }
 
   let $downloadSection: ReturnType<typeof $> | null = null;
   $mainContent.find('h2, h3, h4').each((_i: number, heading: any) => {
-    const headingText = $(heading).text().toUpperCase();
-    if (headingText.includes('DOWNLOAD LINKS')) {
+    const headingText = $(heading).text();
+    if (sel.downloadHeading.test(headingText)) {
       $downloadSection = $(heading).parent();
       return false;
     }
@@ -365,8 +527,7 @@ export function extractMovieMetadata(html: string): {
 
   downloadLinks.each((_i, el) => {
     const href = $(el).attr('href') || '';
-    const cdnDomains = ['hubcdn', 'hubdrive', 'gadgetsweb', 'hubstream', 'hdstream', 'hblinks', 'hubcloud', 'gdflix', 'drivehub'];
-    if (!cdnDomains.some(d => href.toLowerCase().includes(d))) return;
+    if (!adapter.metadataDomains.some(d => href.toLowerCase().includes(d))) return;
 
     const $parent = $(el).closest('h3, h4, p');
     const buttonLabel = $parent.length ? $parent.text().trim() : $(el).text().trim();
@@ -495,24 +656,24 @@ export function extractMovieMetadata(html: string): {
 /**
  * ✅ SMART TIMEOUT: max 12s per step, budget aware
  */
-export async function solveHubCDN(url: string, budget?: GlobalTimeoutBudget) {
+export async function solveHubCDN(url: string, budget?: GlobalTimeoutBudget): Promise<SolverResult> {
   const headers = { ...MOBILE_HEADERS };
 
   try {
     if (budget?.isExpired) {
-      return { status: "error", message: "⏱️ Budget expired before HubCDN" };
+      return failed('budget_expired', "⏱️ Budget expired before HubCDN");
     }
 
     let targetUrl = url;
 
     if (!url.includes("/dl/")) {
-      const axiosConfig = getAxiosConfig(API_TIMEOUTS.HUBCDN, budget, { headers });
+      const axiosConfig = getAxiosConfig(adaptiveTimeout('HUBCDN'), budget, { headers });
       try {
-        const resp = await axios.get(url, {
+        const resp = await withSnapshot('hubcdn', url, () => withCircuit(hostKey(url), () => trackLatency('HUBCDN', () => axios.get(url, {
           headers,
           timeout: axiosConfig.timeout,
           signal: axiosConfig.signal,
-        });
+        })), isHostFailure));
         const html = resp.data;
         
         const reurlMatch = html.match(/var reurl = "(.*?)"/);
@@ -533,37 +694,37 @@ export async function solveHubCDN(url: string, budget?: GlobalTimeoutBudget) {
 
     // Step 2: Get final download link
     if (budget?.isExpired) {
-      return { status: "error", message: "⏱️ Budget expired before HubCDN step 2" };
+      return failed('budget_expired', "⏱️ Budget expired before HubCDN step 2");
     }
 
-    const axiosConfig2 = getAxiosConfig(API_TIMEOUTS.HUBCDN, budget, { headers });
+    const axiosConfig2 = getAxiosConfig(adaptiveTimeout('HUBCDN'), budget, { headers });
     try {
-      const finalResp = await axios.get(targetUrl, {
+      const finalResp = await withSnapshot('hubcdn', targetUrl, () => withCircuit(hostKey(targetUrl), () => trackLatency('HUBCDN', () => axios.get(targetUrl, {
         headers,
         timeout: axiosConfig2.timeout,
         signal: axiosConfig2.signal,
-      });
+      })), isHostFailure));
       const $ = cheerio.load(finalResp.data);
       
       const linkTag = $('a#vd');
       const finalLink = linkTag.attr('href');
 
       if (finalLink) {
-        return { status: "success", final_link: finalLink };
+        return solved(finalLink, finalResp.status);
       }
 
       const scriptMatch = finalResp.data.match(/window\.location\.href\s*=\s*"(.*?)"/);
       if (scriptMatch) {
-        return { status: "success", final_link: scriptMatch[1] };
+        return solved(scriptMatch[1], finalResp.status);
       }
 
-      return { status: "failed", message: "Link id='vd' not found in HTML" };
+      return failed('markup_changed', "Link id='vd' not found in HTML", finalResp.status);
     } finally {
       clearTimeout(axiosConfig2._cleanupTimer);
     }
 
   } catch (e: any) {
-    return { status: "error", message: e.message };
+    return { ok: false, error: classifySolverError(e, { budget }) };
   }
 }
 
@@ -574,19 +735,19 @@ export async function solveHubCDN(url: string, budget?: GlobalTimeoutBudget) {
 /**
  * ✅ SMART TIMEOUT: max 10s, budget aware
  */
-export async function solveHubDrive(url: string, budget?: GlobalTimeoutBudget) {
+export async function solveHubDrive(url: string, budget?: GlobalTimeoutBudget): Promise<SolverResult> {
   try {
     if (budget?.isExpired) {
-      return { status: "error", message: "⏱️ Budget expired before HubDrive" };
+      return failed('budget_expired', "⏱️ Budget expired before HubDrive");
     }
 
-    const axiosConfig = getAxiosConfig(API_TIMEOUTS.HUBDRIVE, budget, { headers: BROWSER_HEADERS });
+    const axiosConfig = getAxiosConfig(adaptiveTimeout('HUBDRIVE'), budget, { headers: BROWSER_HEADERS });
     try {
-      const response = await axios.get(url, {
+      const response = await withSnapshot('hubdrive', url, () => withCircuit(hostKey(url), () => trackLatency('HUBDRIVE', () => axios.get(url, {
         headers: BROWSER_HEADERS,
         timeout: axiosConfig.timeout,
         signal: axiosConfig.signal,
-      });
+      })), isHostFailure));
       const $ = cheerio.load(response.data);
 
       let finalLink = "";
@@ -614,16 +775,76 @@ export async function solveHubDrive(url: string, budget?: GlobalTimeoutBudget) {
       }
 
       if (finalLink) {
-        return { status: "success", link: finalLink };
+        return solved(finalLink, response.status);
       }
 
-      return { status: "fail", message: "Download link not found on HubDrive page" };
+      return failed('markup_changed', "Download link not found on HubDrive page", response.status);
     } finally {
       clearTimeout(axiosConfig._cleanupTimer);
     }
 
   } catch (e: any) {
-    return { status: "error", message: e.message };
+    return { ok: false, error: classifySolverError(e, { budget }) };
+  }
+}
+
+// =============================================================================
+// TIMER PAGE BYPASS — API DRIVEN — WITH SMART TIMEOUT
+// =============================================================================
+
+const TIMER_API_BASE = `${SOLVER_BACKENDS.timer.baseUrl}/solve?url=`;
+
+export const TIMER_PAGE_DOMAINS = ['gadgetsweb', 'review-tech', 'ngwin', 'cryptoinsights'];
+
+/**
+ * ✅ SMART TIMEOUT: max 15s for the Python timer API call, budget aware
+ */
+export async function solveTimerPage(url: string, budget?: GlobalTimeoutBudget): Promise<SolverResult> {
+  try {
+    if (budget?.isExpired) {
+      return failed('budget_expired', "⏱️ Budget expired before Timer Bypass");
+    }
+
+    const resp = await withSnapshot('timer-api', url, async () => {
+      const live = await withCircuit(SOLVER_BACKENDS.timer.key, async () => {
+        const r = await trackLatency('TIMER_BYPASS', () =>
+          safeFetch(
+            TIMER_API_BASE + encodeURIComponent(url),
+            {
+              timeoutMs: adaptiveTimeout('TIMER_BYPASS'),
+              headers: {
+                'User-Agent':
+                  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+              },
+            },
+            budget
+          )
+        );
+        // safeFetch har status pe resolve hota hai — 5xx backend ki galti hai, circuit mein count karo
+        if (r.status >= 500) throw new SolverFailureError('backend_down', `Timer API returned HTTP ${r.status}`, r.status);
+        return r;
+      });
+      // 4xx ka HTML error page bhi record ho — JSON na ho toh raw text
+      const text = await live.text();
+      try {
+        return { status: live.status, data: JSON.parse(text) };
+      } catch {
+        return { status: live.status, data: text };
+      }
+    });
+    const data = resp.data;
+
+    if (typeof data !== 'object' || data === null) {
+      return failed(kindForHttpStatus(resp.status), `Timer API returned non-JSON response (HTTP ${resp.status})`, resp.status);
+    }
+    if (data.status === 'success' && data.extracted_link) {
+      return solved(data.extracted_link as string, resp.status);
+    }
+
+    // API chali lekin page solve nahi hua — timer page ka layout badla
+    return failed('markup_changed', data.message || 'Timer API returned failure status', resp.status);
+  } catch (e: any) {
+    return { ok: false, error: classifySolverError(e, { budget, backend: true }) };
   }
 }
 
@@ -631,18 +852,15 @@ export async function solveHubDrive(url: string, budget?: GlobalTimeoutBudget) {
 // HUBCLOUD SOLVER — API DRIVEN — WITH SMART TIMEOUT
 // =============================================================================
 
-interface HubCloudButton {
+export interface HubCloudButton {
   button_name: string;
   download_link: string;
 }
 
-export interface HubCloudNativeResult {
-  status: 'success' | 'error';
-  best_button_name?: string;
-  best_download_link?: string;
-  all_available_buttons?: HubCloudButton[];
-  message?: string;
-}
+export type HubCloudNativeResult = SolverResult<{
+  buttonName: string | null;
+  allButtons: HubCloudButton[];
+}>;
 
 /**
  * ✅ SMART TIMEOUT: max 20s for the Python API call, budget aware
@@ -651,49 +869,48 @@ export async function solveHubCloudNative(
   url: string,
   budget?: GlobalTimeoutBudget
 ): Promise<HubCloudNativeResult> {
-  const apiBase = "http://127.0.0.1:5000/solve?url=";
+  const apiBase = `${SOLVER_BACKENDS.hubcloud.baseUrl}/solve?url=`;
 
   console.log(`[HubCloud] 🚀 Starting API Solver: ${url} ${budget?.getStatus() || ''}`);
 
   if (budget?.isExpired) {
-    return { status: 'error', message: '⏱️ Budget expired before HubCloud API' };
+    return failed('budget_expired', '⏱️ Budget expired before HubCloud API');
   }
 
   try {
     const apiUrl = apiBase + encodeURIComponent(url);
     console.log(`[HubCloud API] 🌐 Calling localhost:5000...`);
 
-    const axiosConfig = getAxiosConfig(API_TIMEOUTS.HUBCLOUD_API, budget, {
+    const axiosConfig = getAxiosConfig(adaptiveTimeout('HUBCLOUD_API'), budget, {
       headers: { 'User-Agent': 'MflixPro/1.0' },
     });
 
     try {
-      const resp = await axios.get(apiUrl, {
+      const resp = await withSnapshot('hubcloud-api', url, () => withCircuit(SOLVER_BACKENDS.hubcloud.key, () => trackLatency('HUBCLOUD_API', () => axios.get(apiUrl, {
         timeout: axiosConfig.timeout,
         signal: axiosConfig.signal,
         headers: { 'User-Agent': 'MflixPro/1.0' },
-      });
+      })), isBackendFailure));
 
       const data = resp.data;
 
       if (data.status === 'success' && data.best_download_link) {
         console.log(`[HubCloud API] ✅ Success: ${data.best_button_name}`);
-        return {
-          status: 'success',
-          best_button_name: data.best_button_name || undefined,
-          best_download_link: data.best_download_link,
-          all_available_buttons: data.all_available_buttons || [],
-        };
+        return solved(data.best_download_link as string, resp.status, {
+          buttonName: (data.best_button_name as string) || null,
+          allButtons: (data.all_available_buttons as HubCloudButton[]) || [],
+        });
       }
 
       console.log(`[HubCloud API] ❌ Failed: ${data.message || 'unknown'}`);
-      return { status: 'error', message: data.message || 'No download link from API' };
+      return failed('markup_changed', data.message || 'No download link from API', resp.status);
     } finally {
       clearTimeout(axiosConfig._cleanupTimer);
     }
 
   } catch (e: any) {
     console.error(`[HubCloud API] ❌ Error: ${e.message}`);
-    return { status: 'error', message: `API error: ${e.message}` };
+    const error = classifySolverError(e, { budget, backend: true });
+    return { ok: false, error: { ...error, message: `API error: ${error.message}` } };
   }
 }
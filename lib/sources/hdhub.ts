@@ -0,0 +1,29 @@
+import type { SourceAdapter } from './types';
+
+// =============================================================================
+// HDHUB (DEFAULT) — WordPress markup: .entry-content, h1.entry-title,
+// "DOWNLOAD LINKS" heading. Koi adapter match na kare toh yahi use hota hai.
+// =============================================================================
+
+export const hdhubAdapter: SourceAdapter = {
+  name: 'hdhub',
+  label: 'HDHub (WordPress)',
+  matches: (hostname) => hostname.includes('hdhub'),
+  selectors: {
+    title: 'h1.entry-title, h1.post-title, h1',
+    titleCleanup: /\s*[-–|].*?(HDHub|HdHub|hdhub|Download|Free).*$/i,
+    posterFallback: '.entry-content img, .post-content img, main img',
+    linkAnchors: '.entry-content a[href], main a[href]',
+    contentRoots: ['main.page-body', 'div.entry-content'],
+    downloadHeading: /DOWNLOAD LINKS/i,
+  },
+  linkDomains: ['hblinks', 'hubdrive', 'hubcdn', 'hubcloud', 'gdflix', 'drivehub'],
+  metadataDomains: [
+    'hubcdn', 'hubdrive', 'gadgetsweb', 'hubstream', 'hdstream',
+    'hblinks', 'hubcloud', 'gdflix', 'drivehub',
+  ],
+  junkDomains: [
+    'catimages', 'imdb.com', 'googleusercontent', 'instagram.com',
+    'facebook.com', 'wp-content', 'wpshopmart',
+  ],
+};
@@ -0,0 +1,40 @@
+import { hdhubAdapter } from './hdhub';
+import type { SourceAdapter } from './types';
+
+export type { SourceAdapter, SourceSelectors } from './types';
+
+// =============================================================================
+// 🌐 SOURCE ADAPTER REGISTRY — Hostname se page extractor chuno
+// =============================================================================
+// Naya mirror site add karna = ek adapter file + registerSourceAdapter().
+// Core extractors (extractMovieLinks / Preview / Metadata) adapter ke
+// selectors use karte hain; koi match na ho toh HDHub default.
+// =============================================================================
+
+export const DEFAULT_SOURCE_ADAPTER = hdhubAdapter;
+
+const SOURCE_ADAPTERS: SourceAdapter[] = [hdhubAdapter];
+
+/**
+ * Naya adapter register karo. Same name wala replace ho jata hai.
+ * Naye adapters default se pehle check hote hain.
+ */
+export function registerSourceAdapter(adapter: SourceAdapter): void {
+  const existing = SOURCE_ADAPTERS.findIndex((a) => a.name === adapter.name);
+  if (existing !== -1) SOURCE_ADAPTERS.splice(existing, 1);
+  SOURCE_ADAPTERS.unshift(adapter);
+}
+
+export function getSourceAdapters(): readonly SourceAdapter[] {
+  return SOURCE_ADAPTERS;
+}
+
+export function getSourceAdapter(url: string): SourceAdapter {
+  let hostname = '';
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return DEFAULT_SOURCE_ADAPTER;
+  }
+  return SOURCE_ADAPTERS.find((a) => a.matches(hostname)) || DEFAULT_SOURCE_ADAPTER;
+}
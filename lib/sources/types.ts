@@ -0,0 +1,33 @@
+// =============================================================================
+// 🌐 SOURCE ADAPTER TYPES — Har movie site ka apna markup
+// =============================================================================
+
+export interface SourceSelectors {
+  /** Page title heading (comma-separated, pehla match) */
+  title: string;
+  /** Title se site branding hatao (e.g. "- HDHub4u Download") */
+  titleCleanup: RegExp;
+  /** og:image na mile toh poster ke liye img selector */
+  posterFallback: string;
+  /** Download links wale anchors */
+  linkAnchors: string;
+  /** Metadata scan ke liye main content roots (order = priority) */
+  contentRoots: string[];
+  /** Is heading ke parent ke andar download links hote hain */
+  downloadHeading: RegExp;
+}
+
+export interface SourceAdapter {
+  /** Unique id (e.g. 'hdhub') */
+  name: string;
+  label: string;
+  /** Hostname is adapter ka hai? */
+  matches: (hostname: string) => boolean;
+  selectors: SourceSelectors;
+  /** In domains wale links download links maane jaate hain */
+  linkDomains: string[];
+  /** Quality / language scan in domains ke button labels se hota hai */
+  metadataDomains: string[];
+  /** In domains wale links hamesha ignore (images, socials...) */
+  junkDomains: string[];
+}
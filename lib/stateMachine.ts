@@ -0,0 +1,197 @@
+// =============================================================================
+// 🔀 STATE MACHINE — tasks, task links aur queue items ke legal transitions
+// =============================================================================
+// Pehle har file apna "sab done hua?" loop likhti thi (lowercase compare,
+// success / failed jaise purane aliases, timeout kahin pending kahin failed).
+// Ab status ka ek hi matlab, yahin se:
+//
+//   Link  : pending ─► processing ─► done
+//              ▲  │         │  └──► error / timeout ──► pending (retry)
+//              │  └─► done (cache)   └─► pending (lease chhoda)
+//   Task  : processing ─► completed / failed ─► processing (merge / retry)
+//                                   failed ─► completed (late success)
+//   Queue : pending ─► processing ─► completed / failed ─► pending (retry)
+//             ▲              │
+//             └──────────────┘ (budget khatam → checkpoint se resume)
+//
+// Har transition `statusHistory` mein (from, to, at, reason) ke saath record
+// hota hai. Client-safe — dono UIs bhi yahi use karte hain.
+// =============================================================================
+
+export interface StatusTransition<S extends string = string> {
+  from: S | null;
+  to: S;
+  at: string;
+  reason: string;
+}
+
+export interface StateMachine<S extends string> {
+  name: 'task' | 'link' | 'queue';
+  statuses: readonly S[];
+  /** Naye entity ka pehla status */
+  initial: S;
+  transitions: Record<S, readonly S[]>;
+  /** Purane / legacy status strings ko canonical status mein badlo */
+  normalize: (raw: unknown) => S;
+}
+
+/** Har entity pe itni hi history — doc size bounded rahe */
+export const MAX_STATUS_HISTORY = 25;
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly machine: string,
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super(`Cannot move ${machine} from "${from}" to "${to}"`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+// ==================== LINK (scraping_tasks/{id}/links, queue checkpoint) ====================
+
+export const LINK_STATUSES = ['pending', 'processing', 'done', 'error', 'timeout'] as const;
+export type LinkStatus = (typeof LINK_STATUSES)[number];
+
+const LINK_ALIASES: Record<string, LinkStatus> = { success: 'done', failed: 'error' };
+
+export const LINK_MACHINE: StateMachine<LinkStatus> = {
+  name: 'link',
+  statuses: LINK_STATUSES,
+  initial: 'pending',
+  transitions: {
+    // done: link cache se turant; error / timeout: solve shuru hone se pehle hi fail / skip
+    pending: ['processing', 'done', 'error', 'timeout'],
+    processing: ['done', 'error', 'timeout', 'pending'],
+    done: [],
+    error: ['pending'],
+    timeout: ['pending'],
+  },
+  normalize: (raw) => {
+    const s = typeof raw === 'string' ? raw.toLowerCase() : '';
+    if ((LINK_STATUSES as readonly string[]).includes(s)) return s as LinkStatus;
+    return LINK_ALIASES[s] ?? 'pending';
+  },
+};
+
+// ==================== TASK (scraping_tasks) ====================
+
+export const TASK_STATUSES = ['processing', 'completed', 'failed'] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const TASK_MACHINE: StateMachine<TaskStatus> = {
+  name: 'task',
+  statuses: TASK_STATUSES,
+  initial: 'processing',
+  transitions: {
+    processing: ['completed', 'failed'],
+    // Same URL dobara submit → naye links merge / failed links retry
+    completed: ['processing'],
+    // Late success — dusre worker ka link baad mein solve hua
+    failed: ['processing', 'completed'],
+  },
+  normalize: (raw) => {
+    const s = typeof raw === 'string' ? raw.toLowerCase() : '';
+    return (TASK_STATUSES as readonly string[]).includes(s) ? (s as TaskStatus) : 'processing';
+  },
+};
+
+// ==================== QUEUE ITEM (movies_queue / webseries_queue) ====================
+
+export const QUEUE_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+export type QueueItemStatus = (typeof QUEUE_STATUSES)[number];
+
+export const QUEUE_MACHINE: StateMachine<QueueItemStatus> = {
+  name: 'queue',
+  statuses: QUEUE_STATUSES,
+  initial: 'pending',
+  transitions: {
+    pending: ['processing', 'failed'],
+    processing: ['pending', 'completed', 'failed'],
+    failed: ['pending'],
+    // Dobara process karna ho toh wapas queue mein — save merge ho jata hai (savedTo)
+    completed: ['pending'],
+  },
+  // Purane docs mein status missing / ajeeb ho sakta hai → pending maan lo
+  normalize: (raw) =>
+    (QUEUE_STATUSES as readonly unknown[]).includes(raw) ? (raw as QueueItemStatus) : 'pending',
+};
+
+// ==================== TRANSITIONS ====================
+
+/** Same status dobara set karna (idempotent) allowed hai */
+export function canTransition<S extends string>(machine: StateMachine<S>, from: unknown, to: S): boolean {
+  const current = machine.normalize(from);
+  return current === to || machine.transitions[current].includes(to);
+}
+
+export function assertTransition<S extends string>(machine: StateMachine<S>, from: unknown, to: S): void {
+  if (!canTransition(machine, from, to)) {
+    throw new InvalidTransitionError(machine.name, machine.normalize(from), to);
+  }
+}
+
+/**
+ * `entity` ko `to` pe le jao — DB update mein spread karne layak fields lautata hai.
+ * Illegal transition → InvalidTransitionError. Same status → history mein entry nahi.
+ */
+export function applyTransition<S extends string>(
+  machine: StateMachine<S>,
+  entity: { status?: unknown; statusHistory?: StatusTransition<S>[] | null } | null | undefined,
+  to: S,
+  reason: string,
+  at: string = new Date().toISOString()
+): { status: S; statusHistory: StatusTransition<S>[] } {
+  const history = entity?.statusHistory || [];
+  const from = entity?.status === undefined || entity?.status === null ? null : machine.normalize(entity.status);
+
+  if (from === to) return { status: to, statusHistory: history };
+  if (from !== null) assertTransition(machine, from, to);
+
+  return {
+    status: to,
+    statusHistory: [...history, { from, to, at, reason }].slice(-MAX_STATUS_HISTORY),
+  };
+}
+
+// ==================== DERIVED STATUS ====================
+
+export function isLinkOpen(status: unknown): boolean {
+  const s = LINK_MACHINE.normalize(status);
+  return s === 'pending' || s === 'processing';
+}
+
+export function isLinkSettled(status: unknown): boolean {
+  return !isLinkOpen(status);
+}
+
+export interface LinkSummary {
+  total: number;
+  done: number;
+  /** error + timeout */
+  failed: number;
+  /** pending + processing */
+  pending: number;
+}
+
+export function summarizeLinks(statuses: unknown[]): LinkSummary {
+  const summary: LinkSummary = { total: statuses.length, done: 0, failed: 0, pending: 0 };
+  for (const raw of statuses) {
+    const s = LINK_MACHINE.normalize(raw);
+    if (s === 'done') summary.done++;
+    else if (s === 'error' || s === 'timeout') summary.failed++;
+    else summary.pending++;
+  }
+  return summary;
+}
+
+/**
+ * Links se task ka status: sab settle → koi bhi done ho toh completed, warna failed.
+ * Links hi nahi (extraction fail) → `fallback` (doc ka stored status).
+ */
+export function deriveTaskStatus(summary: LinkSummary, fallback: unknown = 'processing'): TaskStatus {
+  if (summary.total === 0) return TASK_MACHINE.normalize(fallback);
+  if (summary.pending > 0) return 'processing';
+  return summary.done > 0 ? 'completed' : 'failed';
+}
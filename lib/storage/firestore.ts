@@ -0,0 +1,301 @@
+import { FieldValue, type DocumentData, type QueryDocumentSnapshot, type Transaction } from 'firebase-admin/firestore';
+import { db } from '../firebaseAdmin';
+import { LINK_MACHINE, summarizeLinks, type LinkStatus, type LinkSummary } from '../stateMachine';
+import type {
+  LinkCacheRepository,
+  QueueRepository,
+  SavedContentRepository,
+  Storage,
+  StoredDoc,
+  TaskLinkRecord,
+  TaskRepository,
+} from './types';
+
+// =============================================================================
+// 🔥 FIRESTORE BACKEND — production storage (lib/firebaseAdmin.ts ka `db`)
+// =============================================================================
+//   scraping_tasks/{taskId}               → task + linkCounts {total, done, failed, pending}
+//   scraping_tasks/{taskId}/links/{0007}  → ek link (status, logs, trace, lease ...)
+//   movies_queue / webseries_queue        → queue items
+//   movies / webseries                    → saved content
+//   link_cache/{sha1}                     → resolved links
+// Link update sirf apna doc transaction mein padhta hai; task ke counts
+// FieldValue.increment se (blind write — contention nahi). Purane tasks
+// (inline `links` array) pehli baar chhoone pe subcollection mein migrate.
+// =============================================================================
+
+const TASKS_COLLECTION = 'scraping_tasks';
+const LINKS_SUBCOLLECTION = 'links';
+const CACHE_COLLECTION = 'link_cache';
+
+// Firestore batch limit 500 writes — thoda margin
+const BATCH_SIZE = 400;
+
+type CountBucket = 'done' | 'failed' | 'pending';
+
+function toStored(doc: QueryDocumentSnapshot): StoredDoc {
+  return { id: doc.id, data: doc.data() };
+}
+
+function taskRef(taskId: string) {
+  return db.collection(TASKS_COLLECTION).doc(taskId);
+}
+
+function linksCol(taskId: string) {
+  return taskRef(taskId).collection(LINKS_SUBCOLLECTION);
+}
+
+/** Zero-padded id — console mein bhi index order mein dikhte hain */
+function linkDocId(index: number): string {
+  return String(index).padStart(4, '0');
+}
+
+function bucketOf(status: unknown): CountBucket {
+  const s = LINK_MACHINE.normalize(status);
+  if (s === 'done') return 'done';
+  return s === 'error' || s === 'timeout' ? 'failed' : 'pending';
+}
+
+function moveCount(transaction: Transaction, taskId: string, from: unknown, to: unknown): void {
+  const a = bucketOf(from);
+  const b = bucketOf(to);
+  if (a === b) return;
+  transaction.update(taskRef(taskId), {
+    [`linkCounts.${a}`]: FieldValue.increment(-1),
+    [`linkCounts.${b}`]: FieldValue.increment(1),
+  });
+}
+
+/**
+ * Task doc mein abhi bhi `links` array hai toh subcollection mein le jao.
+ * Transaction ke andar — do workers ek saath migrate karein toh bhi ek hi baar.
+ */
+async function ensureLinksMigrated(taskId: string): Promise<void> {
+  const ref = taskRef(taskId);
+  const snap = await ref.get();
+  if (!snap.exists || !Array.isArray(snap.data()?.links)) return;
+
+  await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const links = doc.data()?.links;
+    if (!Array.isArray(links)) return;
+
+    links.forEach((l: any, index: number) => {
+      transaction.set(linksCol(taskId).doc(linkDocId(index)), {
+        ...l,
+        index,
+        status: LINK_MACHINE.normalize(l.status),
+      });
+    });
+    transaction.update(ref, {
+      links: FieldValue.delete(),
+      linkCounts: summarizeLinks(links.map((l: any) => l.status)),
+    });
+  });
+  console.log(`[Storage] ♻️ Migrated inline links of ${taskId} to subcollection`);
+}
+
+const tasks: TaskRepository = {
+  async listRecent(limit) {
+    const snap = await db.collection(TASKS_COLLECTION).orderBy('createdAt', 'desc').limit(limit).get();
+    return snap.docs.map(toStored);
+  },
+
+  async findByUrl(url, limit) {
+    const snap = await db.collection(TASKS_COLLECTION).where('url', '==', url).limit(limit).get();
+    return snap.docs.map(toStored);
+  },
+
+  async findByStatus(status, limit) {
+    const snap = await db.collection(TASKS_COLLECTION).where('status', '==', status).limit(limit).get();
+    return snap.docs.map(toStored);
+  },
+
+  async get(taskId) {
+    const doc = await taskRef(taskId).get();
+    return doc.exists ? { id: doc.id, data: doc.data()! } : null;
+  },
+
+  async create(task, links) {
+    const ref = db.collection(TASKS_COLLECTION).doc();
+    await tasks.putLinks(ref.id, links);
+    await ref.set(task);
+    return ref.id;
+  },
+
+  async delete(taskId) {
+    // Subcollection bhi — Firestore parent delete pe children nahi hatata
+    await db.recursiveDelete(taskRef(taskId));
+  },
+
+  async getLinks(taskId) {
+    await ensureLinksMigrated(taskId);
+    const snap = await linksCol(taskId).orderBy('index').get();
+    return snap.docs.map((d) => d.data() as TaskLinkRecord);
+  },
+
+  async putLinks(taskId, links) {
+    for (let i = 0; i < links.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      for (const l of links.slice(i, i + BATCH_SIZE)) {
+        batch.set(linksCol(taskId).doc(linkDocId(l.index)), l);
+      }
+      await batch.commit();
+    }
+  },
+
+  async updateWithLinks(taskId, fn) {
+    await ensureLinksMigrated(taskId);
+    const ref = taskRef(taskId);
+
+    return db.runTransaction(async (transaction) => {
+      const [doc, linksSnap] = await Promise.all([transaction.get(ref), transaction.get(linksCol(taskId))]);
+      const links = linksSnap.docs.map((d) => d.data() as TaskLinkRecord).sort((a, b) => a.index - b.index);
+      const { patch, result } = fn(doc.exists ? doc.data()! : null, links);
+      if (patch && doc.exists) transaction.update(ref, patch);
+      return result;
+    });
+  },
+
+  async updateLink(taskId, index, fn) {
+    const linkRef = linksCol(taskId).doc(linkDocId(index));
+
+    const saved = await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(linkRef);
+      if (!doc.exists) return false;
+
+      const current = doc.data() as TaskLinkRecord;
+      const patch = fn(current);
+      if (!patch) return false;
+
+      transaction.set(linkRef, { ...current, ...patch });
+      if (patch.status !== undefined) moveCount(transaction, taskId, current.status, patch.status);
+      return true;
+    });
+
+    if (!saved) return null;
+    const counts: LinkSummary | undefined = (await taskRef(taskId).get()).data()?.linkCounts;
+    return counts ?? null;
+  },
+
+  async updateOpenLinks(taskId, fn) {
+    await ensureLinksMigrated(taskId);
+    const ref = taskRef(taskId);
+    const openStatuses: LinkStatus[] = ['pending', 'processing'];
+
+    await db.runTransaction(async (transaction) => {
+      const [doc, open] = await Promise.all([
+        transaction.get(ref),
+        transaction.get(linksCol(taskId).where('status', 'in', openStatuses)),
+      ]);
+      if (!doc.exists) return;
+
+      const links = open.docs.map((d) => d.data() as TaskLinkRecord).sort((a, b) => a.index - b.index);
+      const update = fn(doc.data()!, links);
+      for (const [index, patch] of update.links) {
+        transaction.update(linksCol(taskId).doc(linkDocId(index)), patch);
+      }
+      if (update.task) transaction.update(ref, update.task);
+    });
+  },
+
+  async updateLinks(taskId, indexes, fn) {
+    await db.runTransaction(async (transaction) => {
+      const refs = indexes.map((i) => linksCol(taskId).doc(linkDocId(i)));
+      const docs = await Promise.all(refs.map((r) => transaction.get(r)));
+      docs.forEach((d, i) => {
+        if (!d.exists) return;
+        const patch = fn(d.data() as TaskLinkRecord);
+        if (patch) transaction.update(refs[i], patch);
+      });
+    });
+  },
+};
+
+const queue: QueueRepository = {
+  async get(collection, id) {
+    const doc = await db.collection(collection).doc(id).get();
+    return doc.exists ? { id: doc.id, data: doc.data() || {} } : null;
+  },
+
+  async listByStatus(collection, status, limit) {
+    let query = db.collection(collection).where('status', '==', status).orderBy('__name__');
+    if (limit) query = query.limit(limit);
+    const snap = await query.get();
+    return snap.docs.map(toStored);
+  },
+
+  async update(collection, id, patch) {
+    await db.collection(collection).doc(id).update(patch);
+  },
+
+  async mutate(collection, id, fn) {
+    const ref = db.collection(collection).doc(id);
+    return db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const { patch, result } = fn(doc.exists ? doc.data() || {} : null);
+      if (patch && doc.exists) transaction.update(ref, patch);
+      return result;
+    });
+  },
+};
+
+const saved: SavedContentRepository = {
+  async get(collection, id) {
+    const doc = await db.collection(collection).doc(id).get();
+    return doc.exists ? { id: doc.id, data: doc.data() || {} } : null;
+  },
+
+  async create(collection, data) {
+    const ref = await db.collection(collection).add(data);
+    return ref.id;
+  },
+
+  async merge(collection, id, data) {
+    await db.collection(collection).doc(id).set(data, { merge: true });
+  },
+
+  async update(collection, id, patch) {
+    await db.collection(collection).doc(id).update(patch);
+  },
+
+  async findVerifiedBefore(collection, cutoff, limit) {
+    const snap = await db
+      .collection(collection)
+      .where('lastVerifiedAt', '<=', cutoff)
+      .orderBy('lastVerifiedAt')
+      .limit(limit)
+      .get();
+    return snap.docs.map(toStored);
+  },
+
+  async listPage(collection, limit, startAfter) {
+    let query = db.collection(collection).orderBy('__name__').limit(limit);
+    if (startAfter) query = query.startAfter(startAfter);
+    const snap = await query.get();
+    return snap.docs.map(toStored);
+  },
+};
+
+const linkCache: LinkCacheRepository = {
+  async get(key) {
+    const doc = await db.collection(CACHE_COLLECTION).doc(key).get();
+    return doc.exists ? (doc.data() as DocumentData) : null;
+  },
+
+  async set(key, entry) {
+    await db.collection(CACHE_COLLECTION).doc(key).set(entry);
+  },
+
+  async update(key, patch) {
+    await db.collection(CACHE_COLLECTION).doc(key).update(patch);
+  },
+
+  async delete(key) {
+    await db.collection(CACHE_COLLECTION).doc(key).delete();
+  },
+};
+
+export function createFirestoreStorage(): Storage {
+  return { backend: 'firestore', tasks, queue, saved, linkCache };
+}
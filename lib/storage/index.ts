@@ -0,0 +1,47 @@
+import path from 'path';
+import { createFirestoreStorage } from './firestore';
+import { createLocalStorage } from './local';
+import type { Storage, StorageBackend } from './types';
+
+export { QUEUE_COLLECTIONS, SAVED_COLLECTIONS } from './types';
+export type {
+  DocData,
+  QueueCollection,
+  SavedCollection,
+  Storage,
+  StorageBackend,
+  StoredDoc,
+  TaskLinkRecord,
+} from './types';
+
+// =============================================================================
+// 🗄️ STORAGE — Firestore ya local JSON files, STORAGE_BACKEND env se
+// =============================================================================
+// - firestore : default, lib/firebaseAdmin.ts ke credentials
+// - local     : <LOCAL_STORAGE_DIR> (default .data/) mein JSON files —
+//               offline dev / tests / bina Google services ke self-hosting
+// App code kabhi `db` seedha nahi chhoota; sab getStorage() se.
+// =============================================================================
+
+const globalForStorage = globalThis as typeof globalThis & { __mflixStorage?: Storage };
+
+function envBackend(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND;
+  if (backend && backend !== 'firestore' && backend !== 'local') {
+    console.warn(`[Storage] ⚠️ Unknown STORAGE_BACKEND "${backend}", using firestore`);
+  }
+  return backend === 'local' ? 'local' : 'firestore';
+}
+
+/** Hot reload pe bhi ek hi instance — local backend ka memory cache + write lock shared rahe */
+export function getStorage(): Storage {
+  if (!globalForStorage.__mflixStorage) {
+    const backend = envBackend();
+    globalForStorage.__mflixStorage =
+      backend === 'local'
+        ? createLocalStorage(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), '.data'))
+        : createFirestoreStorage();
+    console.log(`[Storage] 🗄️ Using ${backend} backend`);
+  }
+  return globalForStorage.__mflixStorage;
+}
@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { summarizeLinks, isLinkOpen } from '../stateMachine';
+import type {
+  DocData,
+  LinkCacheRepository,
+  QueueRepository,
+  SavedContentRepository,
+  Storage,
+  StoredDoc,
+  TaskLinkRecord,
+  TaskRepository,
+} from './types';
+
+// =============================================================================
+// 💾 LOCAL BACKEND — JSON files, bina Firebase credentials ke
+// =============================================================================
+// Offline development, tests aur single-box self-hosting ke liye.
+// Layout: <dir>/<collection>/<docId>.json (ek doc = ek file)
+//   scraping_tasks/        → task docs
+//   scraping_task_links/   → { links: [...] } per task (index order)
+//   movies_queue/ ...      → baaki collections Firestore jaise hi naam
+// Collection pehli baar chhoone pe memory mein load hoti hai; har write ke
+// baad sirf badli hui file atomically (tmp + rename) likhi jaati hai.
+// Saare writes ek process-wide lock se serialize — transactions ki jagah.
+// Ek hi process ke liye hai: do servers same dir share na karein.
+// =============================================================================
+
+const TASKS_COLLECTION = 'scraping_tasks';
+const TASK_LINKS_COLLECTION = 'scraping_task_links';
+const CACHE_COLLECTION = 'link_cache';
+
+type CollectionMap = Map<string, DocData>;
+
+function newDocId(): string {
+  // Firestore auto-id jaisa — 20 chars
+  return crypto.randomBytes(15).toString('base64url').slice(0, 20);
+}
+
+/** Callers ko copy milti hai — memory wala doc bahar se mutate na ho */
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function byId(a: StoredDoc, b: StoredDoc): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function createLocalStorage(dir: string): Storage {
+  const collections = new Map<string, Promise<CollectionMap>>();
+  let lock: Promise<unknown> = Promise.resolve();
+
+  /** Saare writes ek line mein — read-modify-write beech mein koi aur nahi */
+  function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = lock.then(fn, fn);
+    lock = run.catch(() => {});
+    return run;
+  }
+
+  function docFile(collection: string, id: string): string {
+    return path.join(dir, collection, `${encodeURIComponent(id)}.json`);
+  }
+
+  async function loadCollection(collection: string): Promise<CollectionMap> {
+    const docs: CollectionMap = new Map();
+    const colDir = path.join(dir, collection);
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(colDir);
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') throw e;
+    }
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        docs.set(decodeURIComponent(file.slice(0, -5)), JSON.parse(await fs.readFile(path.join(colDir, file), 'utf8')));
+      } catch (e: any) {
+        console.warn(`[Storage] ⚠️ Skipping unreadable ${collection}/${file}: ${e.message}`);
+      }
+    }
+    return docs;
+  }
+
+  function col(collection: string): Promise<CollectionMap> {
+    if (!collections.has(collection)) collections.set(collection, loadCollection(collection));
+    return collections.get(collection)!;
+  }
+
+  async function writeDoc(collection: string, id: string, data: DocData): Promise<void> {
+    const file = docFile(collection, id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    const json = JSON.stringify(data, null, 2);
+    await fs.writeFile(tmp, json);
+    await fs.rename(tmp, file);
+    // Memory mein bhi wahi jo disk pe hai (undefined fields gayab, koi shared reference nahi)
+    (await col(collection)).set(id, JSON.parse(json));
+  }
+
+  async function removeDoc(collection: string, id: string): Promise<void> {
+    await fs.rm(docFile(collection, id), { force: true });
+    (await col(collection)).delete(id);
+  }
+
+  async function readDoc(collection: string, id: string): Promise<DocData | null> {
+    const data = (await col(collection)).get(id);
+    return data ? clone(data) : null;
+  }
+
+  async function listDocs(collection: string, filter: (data: DocData) => boolean = () => true): Promise<StoredDoc[]> {
+    const docs: StoredDoc[] = [];
+    for (const [id, data] of await col(collection)) {
+      if (filter(data)) docs.push({ id, data: clone(data) });
+    }
+    return docs.sort(byId);
+  }
+
+  /** Firestore `update()` jaisa — doc na ho toh error */
+  async function patchDoc(collection: string, id: string, patch: DocData): Promise<void> {
+    const current = (await col(collection)).get(id);
+    if (!current) throw new Error(`No document to update: ${collection}/${id}`);
+    await writeDoc(collection, id, { ...current, ...patch });
+  }
+
+  // ==================== TASKS ====================
+
+  async function readLinks(taskId: string): Promise<TaskLinkRecord[]> {
+    return ((await readDoc(TASK_LINKS_COLLECTION, taskId))?.links as TaskLinkRecord[] | undefined) ?? [];
+  }
+
+  /** Links likho + task ke counts subcollection se exact recount */
+  async function writeLinksAndCounts(taskId: string, links: TaskLinkRecord[], countsToo: boolean) {
+    const sorted = [...links].sort((a, b) => a.index - b.index);
+    await writeDoc(TASK_LINKS_COLLECTION, taskId, { links: sorted });
+    if (!countsToo) return null;
+
+    const task = (await col(TASKS_COLLECTION)).get(taskId);
+    const linkCounts = summarizeLinks(sorted.map((l) => l.status));
+    if (task) await writeDoc(TASKS_COLLECTION, taskId, { ...task, linkCounts });
+    return linkCounts;
+  }
+
+  function mergeByIndex(existing: TaskLinkRecord[], updates: TaskLinkRecord[]): TaskLinkRecord[] {
+    const byIndex = new Map(existing.map((l) => [l.index, l]));
+    for (const l of updates) byIndex.set(l.index, l);
+    return [...byIndex.values()];
+  }
+
+  const tasks: TaskRepository = {
+    async listRecent(limit) {
+      const docs = await listDocs(TASKS_COLLECTION);
+      return docs.sort((a, b) => String(b.data.createdAt || '').localeCompare(String(a.data.createdAt || ''))).slice(0, limit);
+    },
+
+    async findByUrl(url, limit) {
+      return (await listDocs(TASKS_COLLECTION, (d) => d.url === url)).slice(0, limit);
+    },
+
+    async findByStatus(status, limit) {
+      return (await listDocs(TASKS_COLLECTION, (d) => d.status === status)).slice(0, limit);
+    },
+
+    async get(taskId) {
+      const data = await readDoc(TASKS_COLLECTION, taskId);
+      return data ? { id: taskId, data } : null;
+    },
+
+    create(task, links) {
+      return exclusive(async () => {
+        const id = newDocId();
+        await writeDoc(TASK_LINKS_COLLECTION, id, { links });
+        await writeDoc(TASKS_COLLECTION, id, task);
+        return id;
+      });
+    },
+
+    delete(taskId) {
+      return exclusive(async () => {
+        await removeDoc(TASK_LINKS_COLLECTION, taskId);
+        await removeDoc(TASKS_COLLECTION, taskId);
+      });
+    },
+
+    getLinks(taskId) {
+      return readLinks(taskId);
+    },
+
+    putLinks(taskId, links) {
+      return exclusive(async () => {
+        await writeLinksAndCounts(taskId, mergeByIndex(await readLinks(taskId), links), false);
+      });
+    },
+
+    updateWithLinks(taskId, fn) {
+      return exclusive(async () => {
+        const task = await readDoc(TASKS_COLLECTION, taskId);
+        const { patch, result } = fn(task, await readLinks(taskId));
+        if (patch && task) await patchDoc(TASKS_COLLECTION, taskId, patch);
+        return result;
+      });
+    },
+
+    updateLink(taskId, index, fn) {
+      return exclusive(async () => {
+        const links = await readLinks(taskId);
+        const pos = links.findIndex((l) => l.index === index);
+        if (pos === -1) return null;
+
+        const patch = fn(links[pos]);
+        if (!patch) return null;
+
+        links[pos] = { ...links[pos], ...patch };
+        return writeLinksAndCounts(taskId, links, true);
+      });
+    },
+
+    updateOpenLinks(taskId, fn) {
+      return exclusive(async () => {
+        const task = await readDoc(TASKS_COLLECTION, taskId);
+        if (!task) return;
+
+        const links = await readLinks(taskId);
+        const update = fn(task, links.filter((l) => isLinkOpen(l.status)));
+        if (update.links.size > 0) {
+          const patched = links.map((l) => (update.links.has(l.index) ? { ...l, ...update.links.get(l.index) } : l));
+          await writeLinksAndCounts(taskId, patched, true);
+        }
+        if (update.task) await patchDoc(TASKS_COLLECTION, taskId, update.task);
+      });
+    },
+
+    updateLinks(taskId, indexes, fn) {
+      return exclusive(async () => {
+        const wanted = new Set(indexes);
+        let changed = false;
+        const links = (await readLinks(taskId)).map((l) => {
+          if (!wanted.has(l.index)) return l;
+          const patch = fn(l);
+          if (!patch) return l;
+          changed = true;
+          return { ...l, ...patch };
+        });
+        if (changed) await writeLinksAndCounts(taskId, links, true);
+      });
+    },
+  };
+
+  // ==================== QUEUE ====================
+
+  const queue: QueueRepository = {
+    async get(collection, id) {
+      const data = await readDoc(collection, id);
+      return data ? { id, data } : null;
+    },
+
+    async listByStatus(collection, status, limit) {
+      const docs = await listDocs(collection, (d) => d.status === status);
+      return limit ? docs.slice(0, limit) : docs;
+    },
+
+    update(collection, id, patch) {
+      return exclusive(() => patchDoc(collection, id, patch));
+    },
+
+    mutate(collection, id, fn) {
+      return exclusive(async () => {
+        const data = await readDoc(collection, id);
+        const { patch, result } = fn(data);
+        if (patch && data) await patchDoc(collection, id, patch);
+        return result;
+      });
+    },
+  };
+
+  // ==================== SAVED CONTENT ====================
+
+  const saved: SavedContentRepository = {
+    async get(collection, id) {
+      const data = await readDoc(collection, id);
+      return data ? { id, data } : null;
+    },
+
+    create(collection, data) {
+      return exclusive(async () => {
+        const id = newDocId();
+        await writeDoc(collection, id, data);
+        return id;
+      });
+    },
+
+    merge(collection, id, data) {
+      return exclusive(async () => {
+        const current = (await col(collection)).get(id) || {};
+        await writeDoc(collection, id, { ...current, ...data });
+      });
+    },
+
+    update(collection, id, patch) {
+      return exclusive(() => patchDoc(collection, id, patch));
+    },
+
+    async findVerifiedBefore(collection, cutoff, limit) {
+      const docs = await listDocs(collection, (d) => typeof d.lastVerifiedAt === 'string' && d.lastVerifiedAt <= cutoff);
+      return docs.sort((a, b) => a.data.lastVerifiedAt.localeCompare(b.data.lastVerifiedAt)).slice(0, limit);
+    },
+
+    async listPage(collection, limit, startAfter) {
+      const docs = await listDocs(collection);
+      return docs.filter((d) => startAfter === null || d.id > startAfter).slice(0, limit);
+    },
+  };
+
+  // ==================== LINK CACHE ====================
+
+  const linkCache: LinkCacheRepository = {
+    get(key) {
+      return readDoc(CACHE_COLLECTION, key);
+    },
+
+    set(key, entry) {
+      return exclusive(() => writeDoc(CACHE_COLLECTION, key, entry));
+    },
+
+    update(key, patch) {
+      return exclusive(() => patchDoc(CACHE_COLLECTION, key, patch));
+    },
+
+    delete(key) {
+      return exclusive(() => removeDoc(CACHE_COLLECTION, key));
+    },
+  };
+
+  return { backend: 'local', tasks, queue, saved, linkCache };
+}
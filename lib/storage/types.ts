@@ -0,0 +1,125 @@
+import type { LinkStatus, LinkSummary } from '../stateMachine';
+
+// =============================================================================
+// 🗄️ STORAGE TYPES — Repositories jo har backend implement karta hai
+// =============================================================================
+// Callers (taskStore, jobRunner, queueProcessor, routes ...) sirf ye interfaces
+// dekhte hain. Status decisions (state machine) callers ke callbacks mein
+// rehte hain; repository sirf atomic read-modify-write guarantee karta hai.
+// =============================================================================
+
+export type StorageBackend = 'firestore' | 'local';
+
+export type DocData = Record<string, any>;
+
+export interface StoredDoc {
+  id: string;
+  data: DocData;
+}
+
+export const QUEUE_COLLECTIONS = ['movies_queue', 'webseries_queue'] as const;
+export type QueueCollection = (typeof QUEUE_COLLECTIONS)[number];
+
+export const SAVED_COLLECTIONS = ['movies', 'webseries'] as const;
+export type SavedCollection = (typeof SAVED_COLLECTIONS)[number];
+
+export interface TaskLinkRecord {
+  index: number;
+  name: string;
+  link: string;
+  status: LinkStatus;
+  [field: string]: any;
+}
+
+/** Atomic update ka result — `patch` null/undefined = kuch mat likho */
+export interface Mutation<T> {
+  patch?: DocData | null;
+  result: T;
+}
+
+// ==================== TASKS (scraping_tasks + links) ====================
+
+export interface TaskRepository {
+  /** createdAt desc */
+  listRecent(limit: number): Promise<StoredDoc[]>;
+  findByUrl(url: string, limit: number): Promise<StoredDoc[]>;
+  findByStatus(status: string, limit: number): Promise<StoredDoc[]>;
+  get(taskId: string): Promise<StoredDoc | null>;
+  /** Links pehle, task doc last — worker ko adhura task kabhi na dikhe */
+  create(task: DocData, links: TaskLinkRecord[]): Promise<string>;
+  /** Task + saare links */
+  delete(taskId: string): Promise<void>;
+
+  /** index order mein */
+  getLinks(taskId: string): Promise<TaskLinkRecord[]>;
+  /** Given links (poore records) set karo. linkCounts nahi badalta — baad mein `updateWithLinks` se recount */
+  putLinks(taskId: string, links: TaskLinkRecord[]): Promise<void>;
+
+  /** Task + saare links ek saath padho, `fn` ka patch task pe (atomic) */
+  updateWithLinks<T>(
+    taskId: string,
+    fn: (task: DocData | null, links: TaskLinkRecord[]) => Mutation<T>
+  ): Promise<T>;
+  /**
+   * Ek link atomic read-modify-write. `fn` null → kuch nahi likha.
+   * Status bucket badle toh task ka `linkCounts` repository khud update karta hai.
+   * Likha gaya toh update ke baad ke counts lautata hai.
+   */
+  updateLink(
+    taskId: string,
+    index: number,
+    fn: (link: TaskLinkRecord) => DocData | null
+  ): Promise<LinkSummary | null>;
+  /**
+   * Open (pending / processing) links atomically — lease claim ke liye.
+   * Patches open statuses ke andar hi rehne chahiye (counts nahi badalte).
+   */
+  updateOpenLinks(
+    taskId: string,
+    fn: (task: DocData, open: TaskLinkRecord[]) => { links: Map<number, DocData>; task?: DocData | null }
+  ): Promise<void>;
+  /** Given indexes ke links atomically (lease release) — same counts rule */
+  updateLinks(taskId: string, indexes: number[], fn: (link: TaskLinkRecord) => DocData | null): Promise<void>;
+}
+
+// ==================== QUEUE ITEMS (movies_queue / webseries_queue) ====================
+
+export interface QueueRepository {
+  get(collection: QueueCollection, id: string): Promise<StoredDoc | null>;
+  /** Doc id order mein; limit na ho toh saare */
+  listByStatus(collection: QueueCollection, status: string, limit?: number): Promise<StoredDoc[]>;
+  update(collection: QueueCollection, id: string, patch: DocData): Promise<void>;
+  /** Atomic read-modify-write (claim / manual PATCH) — doc na ho toh `data` null */
+  mutate<T>(collection: QueueCollection, id: string, fn: (data: DocData | null) => Mutation<T>): Promise<T>;
+}
+
+// ==================== SAVED CONTENT (movies / webseries) ====================
+
+export interface SavedContentRepository {
+  get(collection: SavedCollection, id: string): Promise<StoredDoc | null>;
+  create(collection: SavedCollection, data: DocData): Promise<string>;
+  /** Shallow merge (Firestore `set(..., { merge: true })` jaisa) */
+  merge(collection: SavedCollection, id: string, data: DocData): Promise<void>;
+  update(collection: SavedCollection, id: string, patch: DocData): Promise<void>;
+  /** `lastVerifiedAt <= cutoff`, sabse purane pehle */
+  findVerifiedBefore(collection: SavedCollection, cutoff: string, limit: number): Promise<StoredDoc[]>;
+  /** Doc id order mein ek page — `startAfter` id ke baad se */
+  listPage(collection: SavedCollection, limit: number, startAfter: string | null): Promise<StoredDoc[]>;
+}
+
+// ==================== LINK CACHE ====================
+
+export interface LinkCacheRepository {
+  get(key: string): Promise<DocData | null>;
+  set(key: string, entry: DocData): Promise<void>;
+  update(key: string, patch: DocData): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface Storage {
+  backend: StorageBackend;
+  tasks: TaskRepository;
+  queue: QueueRepository;
+  saved: SavedContentRepository;
+  linkCache: LinkCacheRepository;
+}
@@ -0,0 +1,122 @@
+import { resolveLinkCached } from './linkCache';
+import { GlobalTimeoutBudget } from './timeout';
+import type { ProgressEvent } from './progressBus';
+import { LINK_MACHINE } from './stateMachine';
+import { saveTaskLinkResult } from './taskStore';
+
+// =============================================================================
+// 🔗 TASK LINK PROCESSOR — scraping_tasks ke ek link ko solve + save karo
+// =============================================================================
+// Pehle ye logic /api/stream_solve ke andar tha (browser stream pe depend).
+// Ab worker isko call karta hai; events progress bus pe jaate hain.
+// =============================================================================
+
+export interface TaskLinkInput {
+  id: number;
+  name: string;
+  link: string;
+}
+
+/**
+ * ✅ SMART TIMEOUT: `budget` is link ka fair share hai (batch budget.shareFor se)
+ */
+export async function processTaskLink(
+  taskId: string,
+  linkData: TaskLinkInput,
+  options: { budget: GlobalTimeoutBudget; emit: (event: ProgressEvent) => void }
+): Promise<void> {
+  const { budget, emit } = options;
+  const lid = linkData.id;
+  const currentLink = linkData.link;
+  const logs: { msg: string; type: string }[] = [];
+  let finalResult: Record<string, any> | null = null;
+
+  const sendLog = (msg: string, type: string = 'info') => {
+    logs.push({ msg, type });
+    emit({ id: lid, msg, type });
+  };
+
+  try {
+    // 🚀 CHECK BUDGET BEFORE STARTING THIS LINK
+    if (budget.isExpired) {
+      sendLog('⏱️ SKIPPED — Global timeout reached', 'warn');
+      finalResult = {
+        ...linkData,
+        status: 'timeout',
+        error: '⏱️ Skipped due to Vercel time limit',
+        errorKind: 'budget_expired',
+        logs,
+      };
+      return;
+    }
+
+    sendLog(`🔍 Analyzing Link... ${budget.getStatus()}`, 'info');
+
+    if (!currentLink || typeof currentLink !== 'string') {
+      sendLog('❌ No link URL provided for this item', 'error');
+      finalResult = { ...linkData, status: 'error', error: 'No link URL', logs };
+      return;
+    }
+
+    const r = await resolveLinkCached(currentLink, { budget, onLog: sendLog });
+
+    if (r.status === 'done' && r.finalLink) {
+      emit({ id: lid, final: r.finalLink, status: 'done', trace: r.trace });
+      finalResult = {
+        ...linkData,
+        finalLink: r.finalLink,
+        status: 'done',
+        logs,
+        trace: r.trace,
+        best_button_name: r.buttonName || null,
+        all_available_buttons: r.allButtons || [],
+      };
+    } else {
+      emit({ id: lid, status: 'error', msg: 'Process ended without final link', errorKind: r.errorKind ?? null, trace: r.trace });
+      finalResult = {
+        ...linkData,
+        status: r.status,
+        error: r.error || 'Could not solve',
+        errorKind: r.errorKind ?? null,
+        logs,
+        trace: r.trace,
+      };
+    }
+
+  } catch (e: any) {
+    sendLog(`⚠️ Critical Error: ${e.message}`, 'error');
+    finalResult = { ...linkData, status: 'error', error: e.message, logs };
+  } finally {
+
+    // ====================================================================
+    // INCREMENTAL DB SAVE (per-link doc, task pe sirf counts)
+    // ====================================================================
+    const finalDataToSave = finalResult || { ...linkData, status: 'error', error: 'Unknown', logs };
+
+    try {
+      const nextStatus = LINK_MACHINE.normalize(finalDataToSave.status || 'error');
+      const reason = finalDataToSave.error || (nextStatus === 'done' ? 'solved' : nextStatus);
+
+      // Sirf is link ka doc — baaki links / task doc se contention nahi
+      const finishedStatus = await saveTaskLinkResult(taskId, lid, nextStatus, reason, (l) => ({
+        finalLink: finalDataToSave.finalLink || l.finalLink || null,
+        error: finalDataToSave.error || l.error || null,
+        errorKind: finalDataToSave.errorKind ?? null,
+        // 🔁 Retry policy ki attempt limit (POST /api/tasks) ke liye
+        attempts: (l.attempts || 0) + 1,
+        logs: finalDataToSave.logs || l.logs || [],
+        trace: finalDataToSave.trace || l.trace || [],
+        best_button_name: finalDataToSave.best_button_name || l.best_button_name || null,
+        all_available_buttons: finalDataToSave.all_available_buttons || l.all_available_buttons || [],
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      }));
+
+      emit({ id: lid, status: 'finished' });
+      if (finishedStatus) emit({ status: 'task_complete', taskStatus: finishedStatus });
+    } catch (dbErr: any) {
+      console.error(`[TaskProcessor] Incremental save failed for link ${lid}:`, dbErr.message);
+      emit({ id: lid, status: 'finished' });
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { getStorage, type DocData, type TaskLinkRecord } from './storage';
+import {
+  LINK_MACHINE,
+  TASK_MACHINE,
+  applyTransition,
+  canTransition,
+  deriveTaskStatus,
+  summarizeLinks,
+  type LinkStatus,
+  type LinkSummary,
+  type TaskStatus,
+} from './stateMachine';
+
+export type { TaskLinkRecord } from './storage';
+
+// =============================================================================
+// 🗂️ TASK STORE — scraping_tasks + per-link records
+// =============================================================================
+// Pehle saare links (logs + trace ke saath) task doc ke `links` array mein the.
+// Har solved link pe poora array transaction mein rewrite hota tha → N
+// concurrent transactions ek hi doc pe (retries, lost logs) aur doc 1 MiB
+// limit ki taraf badhta tha. Ab har link alag record hai aur task pe sirf
+// linkCounts {total, done, failed, pending}. Records kahan aur kaise rehte
+// hain wo backend ka kaam (lib/storage); yahan sirf status rules.
+// =============================================================================
+
+/** Naya link — `index` createTask khud deta hai (array position) */
+type NewTaskLink = Pick<TaskLinkRecord, 'name' | 'link' | 'status'> & Record<string, any>;
+
+function tasks() {
+  return getStorage().tasks;
+}
+
+/** List view ke liye — `links` array (legacy) kabhi response mein nahi jata */
+export function toTaskSummary(id: string, data: DocData): Record<string, any> {
+  const { links, ...rest } = data;
+  const linkCounts: LinkSummary =
+    rest.linkCounts ?? summarizeLinks(Array.isArray(links) ? links.map((l: any) => l.status) : []);
+  return { id, ...rest, linkCounts };
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+export async function getTask(taskId: string): Promise<Record<string, any> | null> {
+  const doc = await tasks().get(taskId);
+  return doc ? toTaskSummary(doc.id, doc.data) : null;
+}
+
+/** Sabse naye pehle */
+export async function listRecentTasks(limit: number): Promise<Record<string, any>[]> {
+  return (await tasks().listRecent(limit)).map((doc) => toTaskSummary(doc.id, doc.data));
+}
+
+/** Same URL ke tasks, sabse naya pehle */
+export async function findTasksByUrl(url: string, limit: number): Promise<Record<string, any>[]> {
+  const docs = await tasks().findByUrl(url, limit);
+  return docs
+    .map((doc) => toTaskSummary(doc.id, doc.data))
+    .sort((a, b) => {
+      const timeA = a.createdAt || '';
+      const timeB = b.createdAt || '';
+      return timeB > timeA ? 1 : timeB < timeA ? -1 : 0;
+    });
+}
+
+/** Worker ke liye — processing tasks jinke open links bache hain */
+export async function findOpenTaskIds(limit: number): Promise<string[]> {
+  const docs = await tasks().findByStatus('processing', limit);
+  return docs
+    .filter((doc) => Array.isArray(doc.data.links) || (doc.data.linkCounts?.pending ?? 0) > 0)
+    .map((doc) => doc.id);
+}
+
+export function getTaskLinks(taskId: string): Promise<TaskLinkRecord[]> {
+  return tasks().getLinks(taskId);
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/** Links pehle, task record sabse last — worker ko adhura task kabhi na dikhe */
+export function createTask(task: Record<string, any>, links: NewTaskLink[]): Promise<string> {
+  return tasks().create(
+    { ...task, linkCounts: summarizeLinks(links.map((l) => l.status)) },
+    links.map((l, index) => ({ ...l, index }))
+  );
+}
+
+/** Given links (poore records, `index` ke saath) set karo — counts ke liye baad mein recountTask */
+export function writeLinks(taskId: string, links: TaskLinkRecord[]): Promise<void> {
+  return tasks().putLinks(taskId, links);
+}
+
+/**
+ * Saare links se counts dobara ginke task status derive karo.
+ * Merge / retry ke baad — increments pe bharosa nahi, poora recount.
+ */
+export function recountTask(
+  taskId: string,
+  reason: string,
+  extra: Record<string, any> = {}
+): Promise<{ status: TaskStatus; counts: LinkSummary }> {
+  return tasks().updateWithLinks(taskId, (task, links) => {
+    const data = task || {};
+    const counts = summarizeLinks(links.map((l) => l.status));
+    const status = deriveTaskStatus(counts, data.status);
+
+    return {
+      patch: {
+        ...applyTransition(TASK_MACHINE, data, status, reason),
+        linkCounts: counts,
+        ...(status !== 'processing' && data.status !== status ? { completedAt: new Date().toISOString() } : {}),
+        ...extra,
+      },
+      result: { status, counts },
+    };
+  });
+}
+
+/**
+ * Ek link ka result save karo. Sirf wahi link atomically padha jata hai
+ * (legal transition check), task pe sirf counts badalte hain.
+ * Sab links settle → task status finalize, wahi lautata hai (warna null).
+ */
+export async function saveTaskLinkResult(
+  taskId: string,
+  index: number,
+  to: LinkStatus,
+  reason: string,
+  build: (current: TaskLinkRecord) => Record<string, any>
+): Promise<TaskStatus | null> {
+  const counts = await tasks().updateLink(taskId, index, (current) => {
+    // Koi aur worker pehle hi solve kar chuka (done terminal hai) — overwrite mat karo
+    if (!canTransition(LINK_MACHINE, current.status, to)) {
+      console.warn(`[TaskStore] Ignoring ${current.status} → ${to} for link ${index} of ${taskId}`);
+      return null;
+    }
+    return { ...build(current), ...applyTransition(LINK_MACHINE, current, to, reason) };
+  });
+
+  if (!counts || counts.pending > 0) return null;
+
+  const { status } = await recountTask(taskId, `${counts.done}/${counts.total} links solved`);
+  return status;
+}
+
+// =============================================================================
+// CLAIM / RELEASE (worker leases)
+// =============================================================================
+
+/**
+ * Claimable links (pending, ya expired lease wale processing) ko `claim` ke
+ * through processing pe le jao. Counts nahi badalte (dono pending bucket).
+ */
+export async function claimOpenLinks(
+  taskId: string,
+  isClaimable: (l: TaskLinkRecord) => boolean,
+  claim: (l: TaskLinkRecord) => Record<string, any>
+): Promise<TaskLinkRecord[]> {
+  let claimed: TaskLinkRecord[] = [];
+
+  await tasks().updateOpenLinks(taskId, (task, open) => {
+    // Transaction retry pe callback dobara chalta hai — sirf aakhri attempt ka result
+    claimed = open.filter((l) => isClaimable(l) && !!l.link);
+    return {
+      links: new Map(claimed.map((l) => [l.index, claim(l)])),
+      task: claimed.length > 0
+        ? applyTransition(TASK_MACHINE, task, 'processing', `${claimed.length} links claimed`)
+        : null,
+    };
+  });
+
+  return claimed;
+}
+
+/** Claimed but never started links — `release` ke fields se wapas pending */
+export function releaseLinks(
+  taskId: string,
+  indexes: number[],
+  release: (l: TaskLinkRecord) => Record<string, any> | null
+): Promise<void> {
+  return tasks().updateLinks(taskId, indexes, release);
+}
+
+export function deleteTask(taskId: string): Promise<void> {
+  return tasks().delete(taskId);
+}
@@ -16,6 +16,7 @@ export const API_TIMEOUTS = {
   // Page fetching
   PROXY_FETCH: 20_000,       // Cloudscraper proxy: max 20s
   DIRECT_FETCH: 12_000,      // Direct fetch fallback: max 12s
+  FLARESOLVERR: 45_000,      // FlareSolverr headless browser: max 45s (optional strategy)
 
   // Solver APIs
   HBLINKS: 10_000,           // HBLinks solver: max 10s
@@ -31,6 +32,125 @@ export const API_TIMEOUTS = {
   AXIOS_DEFAULT: 8_000,      // Default axios timeout
 } as const;
 
+export type ApiName = keyof typeof API_TIMEOUTS;
+
+// =============================================================================
+// 📈 ADAPTIVE TIMEOUTS — Observed latency se timeout seekho
+// =============================================================================
+// API_TIMEOUTS ab ceiling hai. Har API ki real latency record hoti hai aur
+// timeout = p95 × margin (floor aur ceiling ke beech clamp).
+// Jab tak enough samples nahi, fixed constant hi use hota hai.
+// =============================================================================
+
+const LATENCY_WINDOW = 50;            // Last N samples per API
+const MIN_LATENCY_SAMPLES = 5;        // Isse kam → fixed constant
+const LATENCY_MARGIN = 1.5;           // p95 × 1.5
+const MIN_ADAPTIVE_TIMEOUT_MS = 3_000;
+
+interface LatencySample {
+  ms: number;
+  timedOut: boolean;
+}
+
+const globalForLatency = globalThis as typeof globalThis & {
+  __mflixLatency?: Map<ApiName, LatencySample[]>;
+};
+
+function getLatencyStore(): Map<ApiName, LatencySample[]> {
+  if (!globalForLatency.__mflixLatency) globalForLatency.__mflixLatency = new Map();
+  return globalForLatency.__mflixLatency;
+}
+
+function percentile(sorted: number[], p: number): number {
+  const idx = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, idx)];
+}
+
+/**
+ * Ek API call ki latency record karo.
+ * Timed-out calls bhi record hote hain (elapsed = lower bound) taaki
+ * slow API ka timeout ceiling ki taraf badhe, ghate nahi.
+ */
+export function recordLatency(api: ApiName, ms: number, timedOut: boolean = false): void {
+  const store = getLatencyStore();
+  const samples = store.get(api) || [];
+  samples.push({ ms, timedOut });
+  if (samples.length > LATENCY_WINDOW) samples.shift();
+  store.set(api, samples);
+}
+
+/** Observed latency se derived timeout (ms) — ceiling = API_TIMEOUTS[api] */
+export function adaptiveTimeout(api: ApiName): number {
+  const ceiling = API_TIMEOUTS[api];
+  const samples = getLatencyStore().get(api) || [];
+  if (samples.length < MIN_LATENCY_SAMPLES) return ceiling;
+
+  const p95 = percentile(samples.map((s) => s.ms).sort((a, b) => a - b), 95);
+  const floor = Math.min(MIN_ADAPTIVE_TIMEOUT_MS, ceiling);
+  return Math.round(Math.max(floor, Math.min(ceiling, p95 * LATENCY_MARGIN)));
+}
+
+function isTimeoutError(error: any): boolean {
+  const msg = String(error?.message || '');
+  return (
+    error?.name === 'AbortError' ||
+    error?.name === 'TimeoutError' ||
+    error?.name === 'CanceledError' ||
+    error?.code === 'ECONNABORTED' ||
+    msg.includes('Timeout') ||
+    msg.includes('timeout')
+  );
+}
+
+/**
+ * Call ko time karo aur latency record karo.
+ * Success, HTTP error response, ya timeout → sample. Baaki errors (connection
+ * refused, budget expired) latency nahi batate → skip.
+ */
+export async function trackLatency<T>(api: ApiName, fn: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await fn();
+    recordLatency(api, Date.now() - startedAt);
+    return result;
+  } catch (error: any) {
+    if (error?.response) {
+      recordLatency(api, Date.now() - startedAt);
+    } else if (isTimeoutError(error) && !String(error?.message || '').includes('budget expired')) {
+      recordLatency(api, Date.now() - startedAt, true);
+    }
+    throw error;
+  }
+}
+
+export interface LatencyStats {
+  api: ApiName;
+  samples: number;
+  timeouts: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  ceilingMs: number;
+  currentTimeoutMs: number;
+}
+
+/** Health scoreboard ke liye per-API latency summary */
+export function getLatencyStats(): LatencyStats[] {
+  const store = getLatencyStore();
+  return (Object.keys(API_TIMEOUTS) as ApiName[]).map((api) => {
+    const samples = store.get(api) || [];
+    const sorted = samples.map((s) => s.ms).sort((a, b) => a - b);
+    return {
+      api,
+      samples: samples.length,
+      timeouts: samples.filter((s) => s.timedOut).length,
+      p50Ms: sorted.length ? percentile(sorted, 50) : null,
+      p95Ms: sorted.length ? percentile(sorted, 95) : null,
+      ceilingMs: API_TIMEOUTS[api],
+      currentTimeoutMs: adaptiveTimeout(api),
+    };
+  });
+}
+
 /**
  * VERCEL GLOBAL BUDGET TRACKER
  * --
@@ -38,6 +158,7 @@ export const API_TIMEOUTS = {
  * Hum 55s ka safe budget rakhte hain taaki cleanup ho sake.
  */
 const VERCEL_SAFE_LIMIT_MS = 55_000; // 55 seconds — 5s buffer for cleanup
+const MIN_LINK_SHARE_MS = 8_000;     // Fair share kabhi isse kam nahi (ek hop toh ho sake)
 
 export class GlobalTimeoutBudget {
   private startTime: number;
@@ -89,6 +210,21 @@ export class GlobalTimeoutBudget {
     return AbortSignal.timeout(timeout);
   }
 
+  /**
+   * Fair share: bache hue budget ko pending links mein baanto.
+   * Ek slow link poora budget kha ke baaki sab ko starve na kare.
+   * Link jaldi khatam ho toh bacha time wapas pool mein (next share bada hoga).
+   *
+   * @param pendingLinks  Kitne links abhi solve hone baaki hain (including this one)
+   * @param concurrency   Kitne links saath-saath chal rahe hain
+   */
+  shareFor(pendingLinks: number, concurrency: number = 1): GlobalTimeoutBudget {
+    const available = this.remaining;
+    const slots = Math.max(1, Math.ceil(pendingLinks / Math.max(1, concurrency)));
+    const share = Math.min(available, Math.max(MIN_LINK_SHARE_MS, Math.floor(available / slots)));
+    return new GlobalTimeoutBudget(share);
+  }
+
   /** Human readable status */
   getStatus(): string {
     return `[Budget] Elapsed: ${(this.elapsed / 1000).toFixed(1)}s | Remaining: ${(this.remaining / 1000).toFixed(1)}s`;
@@ -0,0 +1,124 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createFlareSolverrStrategy,
+  fetchWithStrategies,
+  getFetchChain,
+  registerFetchStrategy,
+} from '@/lib/fetchStrategies';
+import { getMockBackend, startMockBackends, stopMockBackends } from '@/lib/mocks/solverBackends';
+
+// =============================================================================
+// Fetch strategy chain — proxy mock (/fetch + raw /page/ HTML jo direct strategy
+// seedha fetch karti hai) aur FlareSolverr mock ke against.
+// Domain memory process-wide hai: chain tests 127.0.0.1 pe (order se chalte
+// hain), cookie / FlareSolverr tests alag hosts pe.
+// =============================================================================
+
+const FLARESOLVERR_URL = 'http://127.0.0.1:15120';
+
+const page = (slug: string, host = '127.0.0.1') => `http://${host}:15101/page/${slug}`;
+
+beforeAll(async () => {
+  // Mock list FLARESOLVERR_URL start hote waqt padhti hai
+  process.env.FLARESOLVERR_URL = FLARESOLVERR_URL;
+  await startMockBackends();
+  registerFetchStrategy(createFlareSolverrStrategy({ endpoint: FLARESOLVERR_URL }));
+});
+
+afterAll(async () => {
+  await stopMockBackends();
+  delete process.env.FLARESOLVERR_URL;
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  getMockBackend('proxy')?.reset();
+  getMockBackend('flaresolverr')?.reset();
+});
+
+function mock(name: string) {
+  const backend = getMockBackend(name);
+  if (!backend) throw new Error(`${name} mock not running`);
+  return backend;
+}
+
+/** Proxy mock pe aaye requests — `/fetch` = proxy strategy, `/page/` = direct strategy */
+const calls = () => mock('proxy').requestLog().map((r) => (r.path === '/fetch' ? 'proxy' : 'direct'));
+
+describe('fetchWithStrategies', () => {
+  it('falls back to the next strategy when the proxy gets a 403', async () => {
+    vi.stubEnv('FETCH_STRATEGIES', 'proxy,direct');
+    mock('proxy').configure({ rules: [{ match: 'blocked-403', body: { status_code: 403 } }] });
+
+    const result = await fetchWithStrategies(page('blocked-403'));
+
+    expect(result.via).toBe('direct');
+    expect(result.html).toContain('Mock Movie (2024)');
+    expect(calls()).toEqual(['proxy', 'direct']);
+  });
+
+  it('tries the strategy that last worked for the domain first', async () => {
+    vi.stubEnv('FETCH_STRATEGIES', 'proxy,direct');
+    expect(getFetchChain(page('any')).map((s) => s.name)).toEqual(['direct', 'proxy']);
+
+    const result = await fetchWithStrategies(page('remembered'));
+
+    expect(result.via).toBe('direct');
+    expect(calls()).toEqual(['direct']);
+  });
+
+  it('treats a Cloudflare challenge page as a block and forgets the domain preference', async () => {
+    vi.stubEnv('FETCH_STRATEGIES', 'proxy,direct');
+    // Raw page fail-status = 403 + "Just a moment..." challenge HTML
+    mock('proxy').configure({ rules: [{ match: 'challenge', fail: 'fail-status', times: 1 }] });
+
+    const result = await fetchWithStrategies(page('challenge'));
+
+    expect(result.via).toBe('proxy');
+    expect(calls()).toEqual(['direct', 'proxy']);
+    expect(getFetchChain(page('any')).map((s) => s.name)).toEqual(['proxy', 'direct']);
+  });
+
+  it('treats a challenge marker in a 200 proxy response as a block', async () => {
+    vi.stubEnv('FETCH_STRATEGIES', 'proxy,direct');
+    mock('proxy').configure({
+      rules: [{ match: 'soft-challenge', times: 1, body: { html: '<html><div id="cf-challenge">Checking your browser</div></html>' } }],
+    });
+
+    const result = await fetchWithStrategies(page('soft-challenge'));
+
+    expect(result.via).toBe('direct');
+    expect(calls()).toEqual(['proxy', 'direct']);
+  });
+
+  it('replays cookies from Set-Cookie on the next request to the same host', async () => {
+    vi.stubEnv('FETCH_STRATEGIES', 'direct');
+
+    await fetchWithStrategies(page('first', 'localhost'));
+    await fetchWithStrategies(page('second', 'localhost'));
+
+    expect(mock('proxy').requestLog().map((r) => r.cookie)).toEqual([null, 'mock_session=1']);
+  });
+});
+
+describe('FlareSolverr strategy', () => {
+  it('returns the solved page through the FlareSolverr endpoint', async () => {
+    vi.stubEnv('FETCH_STRATEGIES', 'flaresolverr');
+
+    const result = await fetchWithStrategies('https://hdhub4u.example/solverr-movie/');
+
+    expect(result).toMatchObject({ via: 'flaresolverr', finalUrl: 'https://hdhub4u.example/solverr-movie/' });
+    expect(result.html).toContain('Mock Movie (2024)');
+    expect(mock('flaresolverr').requestLog()).toMatchObject([{ path: '/v1', target: 'https://hdhub4u.example/solverr-movie/' }]);
+  });
+
+  it('falls back to the proxy when FlareSolverr reports an error', async () => {
+    vi.stubEnv('FETCH_STRATEGIES', 'flaresolverr,proxy');
+    mock('flaresolverr').configure({ rules: [{ fail: 'fail-status' }] });
+
+    const result = await fetchWithStrategies('https://hdhub4u.example/solverr-down/');
+
+    expect(result.via).toBe('proxy');
+    expect(mock('flaresolverr').requestLog()).toHaveLength(1);
+  });
+});
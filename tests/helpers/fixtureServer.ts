@@ -0,0 +1,55 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+
+// =============================================================================
+// 🧪 FIXTURE SERVER — saved HTML pages ko local HTTP pe serve karo
+// =============================================================================
+// GET /hubcdn/dl/vd-anchor → <dir>/hubcdn-dl-vd-anchor.html (slashes → dashes).
+// Pages mein placeholders:
+//   {{BASE_URL}}      → http://127.0.0.1:<port>
+//   {{BASE64:/path}}  → base64(BASE_URL + path), bina padding (HubCDN `r` param jaisa)
+// File na mile → 404. Har request `requests` mein log hoti hai.
+// =============================================================================
+
+export interface FixtureServer {
+  baseUrl: string;
+  requests: string[];
+  url: (pathname: string) => string;
+  close: () => Promise<void>;
+}
+
+export async function startFixtureServer(dir: string): Promise<FixtureServer> {
+  const requests: string[] = [];
+  let baseUrl = '';
+
+  const render = (html: string) =>
+    html
+      .replace(/\{\{BASE64:([^}]+)\}\}/g, (_m, p: string) => Buffer.from(baseUrl + p).toString('base64').replace(/=+$/, ''))
+      .replace(/\{\{BASE_URL\}\}/g, baseUrl);
+
+  const server = http.createServer((req, res) => {
+    const pathname = new URL(req.url || '/', 'http://fixture.local').pathname;
+    requests.push(pathname);
+
+    const file = path.join(dir, `${pathname.replace(/^\/+/, '').replace(/\//g, '-')}.html`);
+    if (!fs.existsSync(file)) {
+      res.writeHead(404, { 'Content-Type': 'text/html' });
+      res.end('<html><title>404 Not Found</title></html>');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(render(fs.readFileSync(file, 'utf-8')));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    baseUrl,
+    requests,
+    url: (pathname) => baseUrl + pathname,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
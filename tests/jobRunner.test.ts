@@ -0,0 +1,233 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { runWorkerCycle } from '@/lib/jobRunner';
+import { getMockBackend, startMockBackends, stopMockBackends } from '@/lib/mocks/solverBackends';
+import { queueChannel, subscribe, type ProgressEvent } from '@/lib/progressBus';
+import { processQueueItem, type QueueItemInput } from '@/lib/queueProcessor';
+import type { LinkStatus } from '@/lib/stateMachine';
+import { getStorage } from '@/lib/storage';
+import { processTaskLink } from '@/lib/taskProcessor';
+import { createTask, getTask, getTaskLinks } from '@/lib/taskStore';
+import { GlobalTimeoutBudget } from '@/lib/timeout';
+
+// =============================================================================
+// Worker end to end — stream_solve (task links) aur auto-process (queue items)
+// mock proxy / HubCloud backends ke against, local JSON storage mein.
+// =============================================================================
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mflix-jobs-'));
+
+// Abhi kisi aur worker ke paas (live lease) — runWorkerCycle inhe nahi uthata,
+// tests processQueueItem seedha chalate hain (claim ke baad jaisa)
+const claimed = {
+  status: 'processing',
+  leaseOwner: 'test-worker',
+  leaseExpiresAt: new Date(Date.now() + 60 * 60_000).toISOString(),
+};
+
+const QUEUE_ITEMS: Record<string, Record<string, any>> = {
+  fresh: { url: 'https://hdhub4u.example/fresh-movie/', title: 'Fresh Movie', type: 'movie', status: 'pending' },
+  cutoff: { url: 'https://hdhub4u.example/cutoff-movie/', title: 'Cutoff Movie', type: 'movie', ...claimed },
+  broken: { url: 'https://hdhub4u.example/broken-movie/', title: 'Broken Movie', type: 'movie', ...claimed },
+  mixed: { url: 'https://hdhub4u.example/mixed-movie/', title: 'Mixed Movie', type: 'movie', ...claimed },
+};
+
+beforeAll(async () => {
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = dataDir;
+  // Local backend collection pehli baar chhoone pe disk se load karta hai
+  fs.mkdirSync(path.join(dataDir, 'movies_queue'), { recursive: true });
+  for (const [id, data] of Object.entries(QUEUE_ITEMS)) {
+    fs.writeFileSync(path.join(dataDir, 'movies_queue', `${id}.json`), JSON.stringify(data));
+  }
+  await startMockBackends();
+});
+
+afterAll(async () => {
+  await stopMockBackends();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  getMockBackend('proxy')?.reset();
+  getMockBackend('hubcloud')?.reset();
+});
+
+function mock(name: string) {
+  const backend = getMockBackend(name);
+  if (!backend) throw new Error(`${name} mock not running`);
+  return backend;
+}
+
+function queueItem(id: string): QueueItemInput {
+  const { url, title, type } = QUEUE_ITEMS[id];
+  return { id, collection: 'movies_queue', url, title, type };
+}
+
+async function queueDoc(id: string) {
+  return (await getStorage().queue.get('movies_queue', id))!.data;
+}
+
+function newTask(slug: string, links: { name: string; link: string }[], status: LinkStatus = 'pending') {
+  return createTask(
+    { url: `https://hdhub4u.example/${slug}/`, status: 'processing', createdAt: new Date().toISOString() },
+    links.map((l) => ({ ...l, status }))
+  );
+}
+
+describe('auto-process worker', () => {
+  it('extracts, solves and saves a pending queue item', async () => {
+    expect(await runWorkerCycle()).toMatchObject({ queueItem: true });
+
+    const doc = await queueDoc('fresh');
+    expect(doc).toMatchObject({ status: 'completed', leaseOwner: null, errorKind: null });
+    expect(doc.checkpoint.links.map((l: any) => l.status)).toEqual(['done', 'done', 'done']);
+
+    const saved = await getStorage().saved.get('movies', doc.savedTo.id);
+    expect(saved?.data).toMatchObject({ title: 'Mock Movie (2024)', successfulLinks: 3, queueRef: { id: 'fresh' } });
+    expect(saved?.data.availableResolutions).toEqual(['480p', '720p', '1080p']);
+  });
+
+  it('checkpoints at the budget cutoff and resumes only the unsolved link', async () => {
+    mock('hubcloud').configure({ rules: [{ match: '-1080', fail: 'hang' }] });
+    const events: ProgressEvent[] = [];
+
+    await processQueueItem(queueItem('cutoff'), { budget: new GlobalTimeoutBudget(3_000), emit: (e) => events.push(e) });
+
+    const partial = await queueDoc('cutoff');
+    expect(partial.status).toBe('pending');
+    expect(partial.checkpoint.links.map((l: any) => [l.status, l.errorKind ?? null])).toEqual([
+      ['done', null],
+      ['done', null],
+      ['timeout', 'budget_expired'],
+    ]);
+    expect(events.at(-1)).toMatchObject({ step: 'done', status: 'processing', successfulLinks: 2, remainingLinks: 1 });
+
+    // Agli run — backend theek; worker pending item dobara claim karke checkpoint se chalata hai
+    mock('hubcloud').reset();
+    expect(await runWorkerCycle()).toMatchObject({ queueItem: true });
+
+    const resumed: ProgressEvent[] = [];
+    subscribe(queueChannel('movies_queue', 'cutoff'), (e) => resumed.push(e))();
+    const done = await queueDoc('cutoff');
+    expect(done).toMatchObject({ status: 'completed', savedTo: partial.savedTo });
+    expect(done.checkpoint.resumes).toBe(1);
+    expect(mock('hubcloud').requestLog().map((r) => r.target)).toEqual([partial.checkpoint.links[2].originalLink]);
+    expect(resumed[0].msg).toBe('♻️ Resuming from checkpoint: 2/3 already solved (resume #1)');
+
+    const saved = await getStorage().saved.get('movies', done.savedTo.id);
+    expect(saved?.data.downloadLinks).toHaveLength(3);
+  });
+
+  it('does not re-solve permanently failed links on resume', async () => {
+    mock('hubcloud').configure({ rules: [{ match: '-480', fail: 'fail-status' }, { match: '-1080', fail: 'hang' }] });
+
+    await processQueueItem(queueItem('mixed'), { budget: new GlobalTimeoutBudget(3_000), emit: () => {} });
+
+    const partial = await queueDoc('mixed');
+    expect(partial.checkpoint.links.map((l: any) => [l.status, l.errorKind ?? null, l.attempts])).toEqual([
+      ['error', 'markup_changed', 1],
+      ['done', null, 1],
+      ['timeout', 'budget_expired', 1],
+    ]);
+
+    mock('hubcloud').reset();
+    await runWorkerCycle();
+
+    const resumed: ProgressEvent[] = [];
+    subscribe(queueChannel('movies_queue', 'mixed'), (e) => resumed.push(e))();
+    expect(resumed).toContainEqual(
+      expect.objectContaining({ msg: '⚡ Resolving 1 of 3 links... (1 failed permanently, not retried)' })
+    );
+    expect(mock('hubcloud').requestLog().map((r) => r.target)).toEqual([partial.checkpoint.links[2].originalLink]);
+
+    const done = await queueDoc('mixed');
+    expect(done.status).toBe('completed');
+    expect(done.checkpoint.links.map((l: any) => [l.status, l.attempts])).toEqual([
+      ['error', 1],
+      ['done', 1],
+      ['done', 2],
+    ]);
+  });
+
+  it('fails the item with the dominant error kind when no link resolves', async () => {
+    mock('hubcloud').configure({ rules: [{ fail: 'fail-status' }] });
+    const events: ProgressEvent[] = [];
+
+    await processQueueItem(queueItem('broken'), { budget: new GlobalTimeoutBudget(20_000), emit: (e) => events.push(e) });
+
+    expect(await queueDoc('broken')).toMatchObject({
+      status: 'failed',
+      error: 'All download links failed to resolve',
+      errorKind: 'markup_changed',
+      leaseOwner: null,
+    });
+    expect(events.at(-1)).toMatchObject({ step: 'done', status: 'failed', errorKind: 'markup_changed' });
+  });
+});
+
+describe('stream_solve worker', () => {
+  it('claims and solves every pending link of a task', async () => {
+    const taskId = await newTask('two-links', [
+      { name: '720p WEB-DL', link: 'https://hubcloud.foo/drive/two-links-720' },
+      { name: '1080p WEB-DL', link: 'https://hubcloud.foo/drive/two-links-1080' },
+    ]);
+
+    expect(await runWorkerCycle()).toMatchObject({ taskBatch: true });
+
+    const links = await getTaskLinks(taskId);
+    expect(links.map((l) => l.status)).toEqual(['done', 'done']);
+    expect(links[0].finalLink).toMatch(/^https:\/\/mock-cdn\.invalid\/files\//);
+    expect(links[0]).toMatchObject({ best_button_name: 'Download [FSL Server]', attempts: 1, leaseOwner: null });
+    expect(await getTask(taskId)).toMatchObject({
+      status: 'completed',
+      linkCounts: { total: 2, done: 2, failed: 0, pending: 0 },
+    });
+  });
+
+  it('records the error kind of a link the backend cannot solve', async () => {
+    mock('hubcloud').configure({ rules: [{ match: 'gone-480', fail: 'fail-status' }] });
+    const taskId = await newTask('one-gone', [
+      { name: '480p WEB-DL', link: 'https://hubcloud.foo/drive/gone-480' },
+      { name: '720p WEB-DL', link: 'https://hubcloud.foo/drive/kept-720' },
+    ]);
+
+    await runWorkerCycle();
+
+    const [gone, kept] = await getTaskLinks(taskId);
+    expect(gone).toMatchObject({ status: 'error', error: 'Mock hubcloud failure', errorKind: 'markup_changed' });
+    expect(kept.status).toBe('done');
+    expect(await getTask(taskId)).toMatchObject({ status: 'completed', linkCounts: { done: 1, failed: 1 } });
+  });
+
+  it('marks a link timeout when the backend hangs past its budget', async () => {
+    mock('hubcloud').configure({ rules: [{ fail: 'hang' }] });
+    const taskId = await newTask('hanging', [{ name: '1080p', link: 'https://hubcloud.foo/drive/hanging-1080' }], 'processing');
+    const events: ProgressEvent[] = [];
+
+    await processTaskLink(
+      taskId,
+      { id: 0, name: '1080p', link: 'https://hubcloud.foo/drive/hanging-1080' },
+      { budget: new GlobalTimeoutBudget(1_500), emit: (e) => events.push(e) }
+    );
+
+    const [link] = await getTaskLinks(taskId);
+    expect(link).toMatchObject({ status: 'timeout', errorKind: 'budget_expired', attempts: 1 });
+    expect(events).toContainEqual({ status: 'task_complete', taskStatus: 'failed' });
+  });
+
+  it('skips a link without calling any backend once the budget is gone', async () => {
+    const taskId = await newTask('no-budget', [{ name: '720p', link: 'https://hubcloud.foo/drive/no-budget-720' }], 'processing');
+
+    await processTaskLink(
+      taskId,
+      { id: 0, name: '720p', link: 'https://hubcloud.foo/drive/no-budget-720' },
+      { budget: new GlobalTimeoutBudget(0), emit: () => {} }
+    );
+
+    expect((await getTaskLinks(taskId))[0]).toMatchObject({ status: 'timeout', errorKind: 'budget_expired' });
+    expect(mock('hubcloud').requestLog()).toEqual([]);
+  });
+});
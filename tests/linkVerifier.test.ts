@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { verifySavedDoc } from '@/lib/linkVerifier';
+import { startMockBackends, stopMockBackends } from '@/lib/mocks/solverBackends';
+import { buildSavedSeasons, type CheckpointLink } from '@/lib/queueProcessor';
+import { getStorage } from '@/lib/storage';
+import { GlobalTimeoutBudget } from '@/lib/timeout';
+import { startFixtureServer, type FixtureServer } from './helpers/fixtureServer';
+
+// =============================================================================
+// Saved webseries doc re-verification — dead CDN link fixture server ka 404,
+// re-resolve mock HubCloud API se, storage local JSON.
+// =============================================================================
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mflix-verify-'));
+let cdn: FixtureServer;
+
+function episode(n: number, finalLink: string): CheckpointLink {
+  return {
+    name: `Episode ${n} 720p`,
+    section: 'Season 1 [Hindi]',
+    originalLink: `https://hubcloud.foo/drive/series-e${n}-720`,
+    finalLink,
+    buttonName: 'Download [FSL Server]',
+    status: 'done',
+    error: null,
+  };
+}
+
+beforeAll(async () => {
+  // Koi bhi 200 page = zinda CDN link; missing path = 404 = dead
+  cdn = await startFixtureServer(path.join(__dirname, 'fixtures', 'solvers'));
+  await startMockBackends();
+
+  const allLinks = [episode(1, cdn.url('/cdn/expired-e1')), episode(2, cdn.url('/hubdrive/file'))];
+  fs.mkdirSync(path.join(dataDir, 'webseries'), { recursive: true });
+  fs.writeFileSync(
+    path.join(dataDir, 'webseries', 'series-doc.json'),
+    JSON.stringify({
+      title: 'Mock Series',
+      type: 'webseries',
+      downloadLinks: allLinks.map((l) => ({ name: l.name, link: l.finalLink, buttonName: l.buttonName })),
+      allLinks,
+      seasons: buildSavedSeasons(allLinks),
+    })
+  );
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = dataDir;
+});
+
+afterAll(async () => {
+  await stopMockBackends();
+  await cdn.close();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('verifySavedDoc', () => {
+  it('puts a re-resolved link into the seasons tree too', async () => {
+    const result = await verifySavedDoc('webseries', 'series-doc', new GlobalTimeoutBudget(20_000));
+    expect(result).toMatchObject({ checked: 2, alive: 1, reResolved: 1, dead: 0 });
+
+    const doc = (await getStorage().saved.get('webseries', 'series-doc'))!.data;
+    const fresh = doc.downloadLinks[0].link;
+    expect(fresh).toMatch(/^https:\/\/mock-cdn\.invalid\/files\//);
+    expect(doc.allLinks[0].finalLink).toBe(fresh);
+
+    const [season] = doc.seasons.seasons;
+    expect(season.episodes.map((e: any) => e.links.map((l: any) => l.link))).toEqual([
+      [fresh],
+      [cdn.url('/hubdrive/file')],
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseReleaseLabel, summarizeQuality, type ReleaseInfo } from '@/lib/releaseParser';
+import { buildSeriesStructure, parseSeriesLink, type SeriesLinkInfo } from '@/lib/seriesParser';
+import releaseLabels from './fixtures/release-labels.json';
+
+// Real button labels (hdhub / series pages) → expected parsed fields
+interface LabelCase {
+  label: string;
+  context?: string;
+  release: ReleaseInfo;
+  series: SeriesLinkInfo;
+}
+
+const cases = releaseLabels as LabelCase[];
+
+describe('parseReleaseLabel', () => {
+  it.each(cases)('$label', ({ label, context, release }) => {
+    expect(parseReleaseLabel(label, context ?? null)).toEqual(release);
+  });
+});
+
+describe('parseSeriesLink', () => {
+  it.each(cases)('$label', ({ label, context, series }) => {
+    expect(parseSeriesLink(label, context ?? null)).toEqual(series);
+  });
+});
+
+describe('summarizeQuality', () => {
+  it('lists every resolution with the best source', () => {
+    const summary = summarizeQuality(cases.map((c) => c.release));
+    expect(summary.resolutions).toEqual(['480p', '720p', '1080p', '2160p']);
+    expect(summary.quality).toBe('480P / 720P / 1080P / 2160P WEB-DL');
+    expect(summary.audioLabel).toBe('Multi Audio');
+  });
+});
+
+describe('buildSeriesStructure', () => {
+  it('groups episodes and packs under their season', () => {
+    const structure = buildSeriesStructure([
+      { name: 'Episode 2 1080p', link: 'https://hubcloud.foo/e2-1080', section: 'Season 1 [Hindi]' },
+      { name: 'Episode 2 480p', link: 'https://hubcloud.foo/e2-480', section: 'Season 1 [Hindi]' },
+      { name: 'Episode 1 720p', link: 'https://hubcloud.foo/e1-720', section: 'Season 1 [Hindi]' },
+      { name: 'Complete Pack 720p', link: 'https://hubcloud.foo/s1-pack', section: 'Season 1 [Hindi]' },
+      { name: 'Trailer', link: 'https://example.com/trailer' },
+    ]);
+
+    expect(structure.totalEpisodes).toBe(2);
+    expect(structure.seasons).toHaveLength(1);
+    const [season] = structure.seasons;
+    expect(season.episodes.map((e) => e.episode)).toEqual([1, 2]);
+    expect(season.episodes[1].links.map((l) => l.quality)).toEqual(['1080p', '480p']);
+    expect(season.packs.map((p) => p.name)).toEqual(['Complete Pack 720p']);
+    expect(structure.unsorted.map((u) => u.name)).toEqual(['Trailer']);
+  });
+});
@@ -0,0 +1,140 @@
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { SOLVER_BACKENDS, getHealthSnapshot } from '@/lib/circuitBreaker';
+import { getMockBackend, startMockBackends, stopMockBackends } from '@/lib/mocks/solverBackends';
+import { resolveLink } from '@/lib/solverRegistry';
+import { GlobalTimeoutBudget } from '@/lib/timeout';
+import { startFixtureServer, type FixtureServer } from './helpers/fixtureServer';
+
+// =============================================================================
+// resolveLink end to end — timer / HubCloud APIs lib/mocks ke stand-ins
+// (ports vitest.config.ts env mein), HBLinks pages fixture server se.
+// =============================================================================
+
+let pages: FixtureServer;
+
+beforeAll(async () => {
+  await startMockBackends();
+  pages = await startFixtureServer(path.join(__dirname, 'fixtures', 'solvers'));
+});
+
+afterAll(async () => {
+  await stopMockBackends();
+  await pages.close();
+});
+
+afterEach(() => {
+  getMockBackend('timer')?.reset();
+  getMockBackend('hubcloud')?.reset();
+});
+
+function mock(name: string) {
+  const backend = getMockBackend(name);
+  if (!backend) throw new Error(`${name} mock not running`);
+  return backend;
+}
+
+const solversOf = (trace: { solver: string }[]) => trace.map((hop) => hop.solver);
+
+describe('resolveLink', () => {
+  it('resolves a HubCloud link through the HubCloud API', async () => {
+    const result = await resolveLink('https://hubcloud.foo/drive/kalki2160x265', {
+      budget: new GlobalTimeoutBudget(20_000),
+    });
+
+    expect(result.status).toBe('done');
+    expect(result.finalLink).toMatch(/^https:\/\/mock-cdn\.invalid\/files\//);
+    expect(result.buttonName).toBe('Download [FSL Server]');
+    expect(result.allButtons).toHaveLength(2);
+    expect(solversOf(result.trace)).toEqual(['hubcloud']);
+  });
+
+  it('follows timer → HubCloud', async () => {
+    const result = await resolveLink('https://gadgetsweb.xyz/?id=a2Fsa2k0ODA', {
+      budget: new GlobalTimeoutBudget(20_000),
+    });
+
+    expect(result.status).toBe('done');
+    expect(solversOf(result.trace)).toEqual(['timer', 'hubcloud']);
+    expect(result.trace[0].output).toMatch(/^https:\/\/hubcloud\.foo\/drive\//);
+  });
+
+  it('re-runs the timer when it returns another intermediate page', async () => {
+    mock('timer').configure({
+      rules: [{ match: 'gadgetsweb', times: 1, body: { extracted_link: 'https://intermediate.invalid/go?id=42' } }],
+    });
+    const logs: string[] = [];
+
+    const result = await resolveLink('https://gadgetsweb.xyz/?id=a2Fsa2k0ODA', {
+      budget: new GlobalTimeoutBudget(20_000),
+      onLog: (msg) => logs.push(msg),
+    });
+
+    expect(result.status).toBe('done');
+    expect(solversOf(result.trace)).toEqual(['timer', 'timer', 'hubcloud']);
+    expect(result.trace[1].input).toBe('https://intermediate.invalid/go?id=42');
+    expect(logs).toContain('🔄 Bypassing intermediate page: https://intermediate.invalid/go?id=42');
+  });
+
+  it('gives up after the timer maxRuns', async () => {
+    mock('timer').configure({ rules: [{ body: { extracted_link: 'https://intermediate.invalid/loop' } }] });
+
+    const result = await resolveLink('https://gadgetsweb.xyz/?id=loop', { budget: new GlobalTimeoutBudget(20_000) });
+
+    expect(result).toMatchObject({ status: 'error', error: 'Stuck in timer loop' });
+    expect(solversOf(result.trace)).toEqual(['timer', 'timer', 'timer', 'timer']);
+    expect(result.trace.at(-1)?.status).toBe('skipped');
+  });
+
+  it('does not re-run other solvers on an unrecognized link', async () => {
+    const result = await resolveLink('https://example.com/not-a-host', { budget: new GlobalTimeoutBudget(20_000) });
+
+    expect(result).toMatchObject({ status: 'error', error: 'Unrecognized link format', errorKind: 'not_found' });
+  });
+
+  it('solves an HBLinks page, then the HubCloud API', async () => {
+    const result = await resolveLink(pages.url('/hblinks/tld-priority'), { budget: new GlobalTimeoutBudget(20_000) });
+
+    expect(result.status).toBe('done');
+    expect(solversOf(result.trace)).toEqual(['hblinks', 'hubcloud']);
+    expect(result.trace[1].input).toBe('https://hubcloud.fans/drive/kalki720fans');
+  });
+
+  it('retries a HubCloud API 5xx once', async () => {
+    mock('hubcloud').configure({ rules: [{ fail: 'http500', times: 1 }] });
+
+    const result = await resolveLink('https://hubcloud.foo/drive/retry-me', { budget: new GlobalTimeoutBudget(20_000) });
+
+    expect(result.status).toBe('done');
+    expect(result.trace.map((hop) => [hop.status, hop.attempt ?? 1])).toEqual([
+      ['error', 1],
+      ['final', 2],
+    ]);
+    expect(result.trace[0]).toMatchObject({ httpStatus: 500, errorKind: 'backend_down' });
+  });
+
+  it('times out when the backend hangs past the budget', async () => {
+    mock('hubcloud').configure({ rules: [{ fail: 'hang' }] });
+
+    const result = await resolveLink('https://hubcloud.foo/drive/slow', { budget: new GlobalTimeoutBudget(1_500) });
+
+    expect(result.status).toBe('timeout');
+    expect(result.errorKind).toBe('budget_expired');
+  });
+
+  // Circuit state process-wide hai — ye case sabse last
+  it('opens the timer circuit after repeated 5xx responses', async () => {
+    mock('timer').configure({ rules: [{ fail: 'http500' }] });
+    const solve = () => resolveLink('https://gadgetsweb.xyz/?id=down', { budget: new GlobalTimeoutBudget(20_000) });
+
+    const first = await solve();
+    expect(first).toMatchObject({ status: 'error', errorKind: 'backend_down' });
+    expect(first.trace[0]).toMatchObject({ httpStatus: 500, errorKind: 'backend_down' });
+
+    // 2 attempts + 1 = CONSECUTIVE_FAILURE_LIMIT → OPEN, chautha call network tak nahi jata
+    await solve();
+    expect(mock('timer').requestLog()).toHaveLength(3);
+    const timer = getHealthSnapshot().backends.find((b) => b.key === SOLVER_BACKENDS.timer.key);
+    expect(timer?.state).toBe('open');
+  });
+});
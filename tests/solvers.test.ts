@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { extractMovieMetadata, isJunkLink, solveHBLinks, solveHubCDN, solveHubDrive } from '@/lib/solvers';
+import { startFixtureServer, type FixtureServer } from './helpers/fixtureServer';
+
+// Saved solver pages (tests/fixtures/solvers) local HTTP server se — network nahi
+let server: FixtureServer;
+
+beforeAll(async () => {
+  server = await startFixtureServer(path.join(__dirname, 'fixtures', 'solvers'));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('solveHBLinks', () => {
+  it('prefers HubCloud TLDs in priority order over page order', async () => {
+    const result = await solveHBLinks(server.url('/hblinks/tld-priority'));
+    expect(result).toMatchObject({
+      ok: true,
+      link: 'https://hubcloud.fans/drive/kalki720fans',
+      source: 'HubCloud.fans (Priority 1)',
+      httpStatus: 200,
+    });
+  });
+
+  it('falls back to HubDrive TLDs when no HubCloud link exists', async () => {
+    const result = await solveHBLinks(server.url('/hblinks/hubdrive-only'));
+    expect(result).toMatchObject({
+      ok: true,
+      link: 'https://hubdrive.space/file/pnc3e01-space',
+      source: 'HubDrive.space (Priority 2)',
+    });
+  });
+
+  it('takes any hubcloud link on an unknown TLD', async () => {
+    const result = await solveHBLinks(server.url('/hblinks/generic'));
+    expect(result).toMatchObject({
+      ok: true,
+      link: 'https://new2.hubcloud.xyz/drive/stree2-480',
+      source: 'HubCloud/HubDrive (Generic)',
+    });
+  });
+
+  it('reports markup_changed when the page has no hub links', async () => {
+    const result = await solveHBLinks(server.url('/hblinks/no-links'));
+    expect(result).toMatchObject({ ok: false, error: { kind: 'markup_changed', httpStatus: 200 } });
+  });
+
+  it('reports not_found for a missing page', async () => {
+    const result = await solveHBLinks(server.url('/hblinks/deleted-post'));
+    expect(result).toMatchObject({ ok: false, error: { kind: 'not_found', httpStatus: 404 } });
+  });
+});
+
+describe('solveHubCDN', () => {
+  it('decodes the base64 `r` param of the landing page redirect', async () => {
+    const result = await solveHubCDN(server.url('/hubcdn/landing'));
+    expect(result).toMatchObject({
+      ok: true,
+      link: 'https://cdn.hubcdn.example/files/kalki-1080p-hevc.mkv?token=9f2c',
+    });
+    expect(server.requests).toContain('/hubcdn/dl/vd-anchor');
+  });
+
+  it('reads the a#vd download anchor', async () => {
+    const result = await solveHubCDN(server.url('/hubcdn/dl/vd-anchor'));
+    expect(result).toMatchObject({ ok: true, link: 'https://cdn.hubcdn.example/files/kalki-1080p-hevc.mkv?token=9f2c' });
+  });
+
+  it('falls back to the window.location.href redirect script', async () => {
+    const result = await solveHubCDN(server.url('/hubcdn/landing-script'));
+    expect(result).toMatchObject({ ok: true, link: 'https://cdn.hubcdn.example/files/kalki-1080p-x264.mkv?token=4ab1' });
+  });
+
+  it('reports markup_changed when neither fallback is present', async () => {
+    const result = await solveHubCDN(server.url('/hubcdn/dl/missing'));
+    expect(result).toMatchObject({ ok: false, error: { kind: 'markup_changed' } });
+  });
+});
+
+describe('solveHubDrive', () => {
+  it('takes the hubcloud success button', async () => {
+    const result = await solveHubDrive(server.url('/hubdrive/file'));
+    expect(result).toMatchObject({ ok: true, link: 'https://hubcloud.foo/drive/pnc3e01-1080' });
+  });
+});
+
+describe('isJunkLink', () => {
+  it.each([
+    ['Join Our Telegram Channel', true],
+    ['[How To Download]', true],
+    ['  How to Watch  ', true],
+    ['4K | SDR | HEVC', true],
+    ['4K', true],
+    ['hevc', true],
+    ['Request Movie', true],
+    ['2160p 4K WEB-DL HEVC [18GB]', false],
+    ['1080p [Hindi + Telugu] WEB-DL x264', false],
+    ['Download Now', false],
+  ])('%j → %s', (text, junk) => {
+    expect(isJunkLink(text)).toBe(junk);
+  });
+});
+
+describe('extractMovieMetadata', () => {
+  const page = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', 'metadata', `${name}.html`), 'utf-8');
+
+  it('reads languages and quality from download-section buttons only', () => {
+    // Pehla resolution (720P), lekin format sabse acha (HDTC < WEB-DL);
+    // section ke bahar ka Korean aur non-metadata domain ka Japanese ignore
+    expect(extractMovieMetadata(page('button-labels'))).toEqual({
+      quality: '720P WEB-DL',
+      languages: 'English, Hindi, Tamil',
+      audioLabel: 'Multi Audio',
+    });
+  });
+
+  it('adds languages from a MULTi [... HINDI ...] line', () => {
+    expect(extractMovieMetadata(page('multi-audio'))).toEqual({
+      quality: '1080P BluRay',
+      languages: 'English, Hindi, Japanese',
+      audioLabel: 'Multi Audio',
+    });
+  });
+
+  it('falls back to the Language: / Quality: info fields', () => {
+    expect(extractMovieMetadata(page('info-fields'))).toEqual({
+      quality: '720P HEVC',
+      languages: 'Hindi, Telugu',
+      audioLabel: 'Dual Audio',
+    });
+  });
+
+  it('returns placeholders when nothing is found', () => {
+    expect(extractMovieMetadata(page('no-info'))).toEqual({
+      quality: 'Unknown Quality',
+      languages: 'Not Specified',
+      audioLabel: 'Not Found',
+    });
+  });
+});
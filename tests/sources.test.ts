@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CLOUDFLARE_MARKERS, registerFetchStrategy } from '@/lib/fetchStrategies';
+import { extractMovieLinks } from '@/lib/solvers';
+import { getSourceAdapter, getSourceAdapters } from '@/lib/sources';
+
+// =============================================================================
+// Har source adapter ka kam se kam ek saved page (tests/fixtures/pages) —
+// page fetch ek "fixture" strategy se hota hai, hostname wahi jo asli site ka,
+// taaki getSourceAdapter() sahi adapter chune. Naya adapter = naya row + page.
+// =============================================================================
+
+const PAGES_DIR = path.join(__dirname, 'fixtures', 'pages');
+
+const PAGES = [
+  { adapter: 'hdhub', url: 'https://hdhub4u.example/kalki-2898-ad-2024/', page: 'hdhub-movie' },
+  { adapter: 'hdhub', url: 'https://hdhub4u.example/panchayat-season-3/', page: 'hdhub-series' },
+];
+
+interface ExpectedPage {
+  links: { name: string; link: string; section: string | null }[];
+  quality: string;
+  languages: string;
+}
+
+function readPage(page: string): string {
+  return fs.readFileSync(path.join(PAGES_DIR, `${page}.html`), 'utf-8');
+}
+
+function readExpected(page: string): ExpectedPage {
+  return JSON.parse(fs.readFileSync(path.join(PAGES_DIR, `${page}.expected.json`), 'utf-8'));
+}
+
+beforeAll(() => {
+  const byUrl = new Map(PAGES.map((p) => [p.url, p.page]));
+  registerFetchStrategy({
+    name: 'fixture',
+    label: 'Saved page fixture',
+    headers: {},
+    useCookieJar: false,
+    detection: { blockedStatuses: [403, 429, 503], challengeMarkers: CLOUDFLARE_MARKERS },
+    timeoutApi: 'DIRECT_FETCH',
+    circuit: { scope: 'backend', key: 'backend:fixture' },
+    request: async (url) => {
+      const page = byUrl.get(url);
+      return page ? { status: 200, html: readPage(page), finalUrl: url } : { status: 404, html: '', finalUrl: url };
+    },
+  });
+  vi.stubEnv('FETCH_STRATEGIES', 'fixture');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('source adapters', () => {
+  it('every registered adapter has a saved page', () => {
+    for (const adapter of getSourceAdapters()) {
+      expect(PAGES.map((p) => p.adapter)).toContain(adapter.name);
+    }
+  });
+
+  it.each(PAGES)('$adapter extracts the expected links from $page', async ({ adapter, url, page }) => {
+    expect(getSourceAdapter(url).name).toBe(adapter);
+
+    const result = await extractMovieLinks(url);
+    const expected = readExpected(page);
+
+    expect(result.status).toBe('success');
+    expect(result.source).toBe(adapter);
+    expect(result.links?.map(({ name, link, section }) => ({ name, link, section }))).toEqual(expected.links);
+    expect(result.metadata?.quality).toBe(expected.quality);
+    expect(result.metadata?.languages).toBe(expected.languages);
+  });
+
+  it('records why junk anchors were rejected', async () => {
+    const result = await extractMovieLinks(PAGES[0].url, undefined, { diagnostics: true });
+    const rejected = result.diagnostics?.anchors.filter((a) => !a.accepted).map((a) => [a.href, a.reason]);
+
+    expect(rejected).toEqual([
+      ['https://www.imdb.com/title/tt12735488/', 'junk_domain'],
+      ['https://t.me/hdhub4u_official', 'junk_text'],
+      ['https://hblinks.pro/archives/88213', 'duplicate'],
+      ['https://hubcloud.foo/drive/kalki4ksample', 'junk_text'],
+      ['https://hdhub4u.example/how-to-download/', 'junk_text'],
+      ['#respond', 'fragment_link'],
+      ['https://hdhub4u.example/wp-content/uploads/2024/06/kalki-screenshot-1.jpg', 'junk_domain'],
+      ['https://www.instagram.com/hdhub4u', 'junk_domain'],
+    ]);
+  });
+
+  it('groups series pages by season and episode', async () => {
+    const result = await extractMovieLinks(PAGES[1].url);
+
+    expect(result.series?.seasons.map((s) => s.season)).toEqual([3]);
+    const [season] = result.series!.seasons;
+    expect(season.episodes.map((e) => [e.episode, e.links.map((l) => l.quality)])).toEqual([
+      [1, ['1080p', '720p']],
+      [2, ['1080p', '720p']],
+      [3, ['1080p', '720p']],
+    ]);
+    expect(season.packs.map((p) => p.link)).toEqual(['https://hubcloud.foo/drive/pnc3-pack-1080']);
+  });
+});
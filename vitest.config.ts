@@ -0,0 +1,21 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests — `npm test`. Fixtures (saved pages, label tables) tests/fixtures mein.
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    // Mock backends fixed ports pe listen karte hain — do files ek saath start na karein
+    fileParallelism: false,
+    // Mock solver backends (lib/mocks) in ports pe — asli Python services (5000 / 5001 / 10000) se takraav nahi
+    env: {
+      PROXY_API_URL: 'http://127.0.0.1:15101',
+      HUBCLOUD_API_URL: 'http://127.0.0.1:15100',
+      TIMER_API_URL: 'http://127.0.0.1:15110',
+    },
+  },
+});